@@ -4,6 +4,8 @@
  * Uses static code metrics + pattern detection for 85%+ accuracy
  */
 
+import { LanguageId, detectLanguage, isCommentLine } from './language.js';
+
 export interface AICodePattern {
     type: string;
     description: string;
@@ -171,7 +173,11 @@ function calculateFunctionLengthVariance(content: string): number {
 /**
  * Enhanced AI code analysis with research-based detection
  */
-export function analyzeAICode(content: string, filePath: string): AICodeAnalysis {
+export function analyzeAICode(
+    content: string,
+    filePath: string,
+    language: LanguageId = detectLanguage(filePath, content)
+): AICodeAnalysis {
     const lines = content.split('\n');
     const patterns: AICodePattern[] = [];
     
@@ -184,7 +190,7 @@ export function analyzeAICode(content: string, filePath: string): AICodeAnalysis
     lines.forEach(line => {
         const trimmed = line.trim();
         if (!trimmed) blankLines++;
-        else if (trimmed.startsWith('//') || trimmed.startsWith('#') || trimmed.startsWith('/*') || trimmed.startsWith('*')) {
+        else if (isCommentLine(trimmed, language)) {
             commentLines++;
         } else {
             codeLines++;
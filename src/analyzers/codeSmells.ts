@@ -3,21 +3,37 @@
  * Identifies common code quality issues and anti-patterns
  */
 
+import { RuleConfig } from '../config/config.js';
+import { LanguageId, detectLanguage, getLanguageInfo, isCommentLine } from './language.js';
+import { TimeBudget } from './timeBudget.js';
+import { RuleDefinition, runRules } from '../rules/registry.js';
+
 export interface CodeSmell {
     type: string;
     severity: 'blocker' | 'critical' | 'major' | 'minor' | 'info';
     line?: number;
     message: string;
     effort: number; // minutes to fix
+    fingerprint?: string; // content-aware identity, set by scanFile
+}
+
+function indentOf(line: string): number {
+    return line.length - line.trimStart().length;
 }
 
 /**
- * Detect long methods/functions (> 50 lines)
+ * Detect long methods/functions (> 50 lines by default)
  */
-export function detectLongMethods(content: string, filePath: string): CodeSmell[] {
+export function detectLongMethods(
+    content: string,
+    filePath: string,
+    options: RuleConfig['long_method'] = {},
+    language: LanguageId = detectLanguage(filePath, content)
+): CodeSmell[] {
+    const { maxLines = 50, criticalLines = 100 } = options;
     const smells: CodeSmell[] = [];
     const lines = content.split('\n');
-    const ext = filePath.split('.').pop() || 'js';
+    const indentBlocks = getLanguageInfo(language).indentBlocks;
     
     let inFunction = false;
     let functionStart = 0;
@@ -36,17 +52,28 @@ export function detectLongMethods(content: string, filePath: string): CodeSmell[
         }
         
         if (inFunction) {
-            if (line.includes('{')) braceCount++;
-            if (line.includes('}')) braceCount--;
+            let functionEnd = -1;
+            if (indentBlocks) {
+                // Body ends at the next code line indented no deeper than the definition
+                const next = lines[i + 1];
+                const isLast = i === lines.length - 1;
+                if (isLast || (next.trim() && !isCommentLine(next, language) && indentOf(next) <= indentOf(lines[functionStart]))) {
+                    functionEnd = i + 1;
+                }
+            } else {
+                if (line.includes('{')) braceCount++;
+                if (line.includes('}')) braceCount--;
+                if (braceCount === 0 && i > functionStart) functionEnd = i;
+            }
             
-            if (braceCount === 0 && i > functionStart) {
-                const functionLength = i - functionStart;
-                if (functionLength > 50) {
+            if (functionEnd !== -1) {
+                const functionLength = functionEnd - functionStart;
+                if (functionLength > maxLines) {
                     smells.push({
                         type: 'long_method',
-                        severity: functionLength > 100 ? 'critical' : 'major',
+                        severity: functionLength > criticalLines ? 'critical' : 'major',
                         line: functionStart + 1,
-                        message: `Function '${functionName}' is ${functionLength} lines long (recommended: < 50 lines)`,
+                        message: `Function '${functionName}' is ${functionLength} lines long (recommended: < ${maxLines} lines)`,
                         effort: Math.ceil(functionLength / 10) * 15 // 15 min per 10 lines to refactor
                     });
                 }
@@ -59,18 +86,23 @@ export function detectLongMethods(content: string, filePath: string): CodeSmell[
 }
 
 /**
- * Detect god classes/files (> 500 lines)
+ * Detect god classes/files (> 500 lines by default)
  */
-export function detectGodClasses(content: string, filePath: string): CodeSmell[] {
+export function detectGodClasses(
+    content: string,
+    filePath: string,
+    options: RuleConfig['god_class'] = {}
+): CodeSmell[] {
+    const { maxLines = 500, blockerLines = 1000 } = options;
     const smells: CodeSmell[] = [];
     const lines = content.split('\n').filter(l => l.trim().length > 0);
     const fileName = filePath.split('/').pop() || 'unknown';
     
-    if (lines.length > 500) {
+    if (lines.length > maxLines) {
         smells.push({
             type: 'god_class',
-            severity: lines.length > 1000 ? 'blocker' : 'critical',
-            message: `File '${fileName}' has ${lines.length} lines (recommended: < 500 lines). Consider splitting into smaller modules.`,
+            severity: lines.length > blockerLines ? 'blocker' : 'critical',
+            message: `File '${fileName}' has ${lines.length} lines (recommended: < ${maxLines} lines). Consider splitting into smaller modules.`,
             effort: Math.ceil(lines.length / 100) * 60 // 1 hour per 100 lines to refactor
         });
     }
@@ -81,7 +113,12 @@ export function detectGodClasses(content: string, filePath: string): CodeSmell[]
 /**
  * Detect magic numbers (hardcoded values)
  */
-export function detectMagicNumbers(content: string): CodeSmell[] {
+export function detectMagicNumbers(
+    content: string,
+    options: RuleConfig['magic_number'] = {},
+    language: LanguageId = 'unknown'
+): CodeSmell[] {
+    const { maxPerFile = 10 } = options;
     const smells: CodeSmell[] = [];
     const lines = content.split('\n');
     
@@ -91,7 +128,7 @@ export function detectMagicNumbers(content: string): CodeSmell[] {
         const magicNumberPattern = /(?<!const|let|var|=\s*)[^a-zA-Z0-9_]([2-9]|[1-9]\d+)(?![a-zA-Z0-9_])/g;
         const matches = line.match(magicNumberPattern);
         
-        if (matches && !line.includes('//') && !line.trim().startsWith('*')) {
+        if (matches && !line.includes('//') && !isCommentLine(line, language)) {
             smells.push({
                 type: 'magic_number',
                 severity: 'minor',
@@ -102,25 +139,41 @@ export function detectMagicNumbers(content: string): CodeSmell[] {
         }
     }
     
-    return smells.slice(0, 10); // Limit to top 10
+    return smells.slice(0, maxPerFile); // Limit to top N (default 10)
 }
 
 /**
- * Detect deep nesting (> 4 levels)
+ * Detect deep nesting (> 4 levels by default)
  */
-export function detectDeepNesting(content: string): CodeSmell[] {
+export function detectDeepNesting(
+    content: string,
+    options: RuleConfig['deep_nesting'] = {},
+    language: LanguageId = 'unknown'
+): CodeSmell[] {
+    const { maxDepth = 4, majorDepth = 6 } = options;
     const smells: CodeSmell[] = [];
     const lines = content.split('\n');
+    const indentBlocks = getLanguageInfo(language).indentBlocks;
+    // Indentation-based languages: one level per indent step (smallest indentation used)
+    const indentUnit = lines.reduce((unit, line) => {
+        const indent = indentOf(line);
+        return indent > 0 && indent < unit ? indent : unit;
+    }, Infinity);
     let nestingLevel = 0;
     let maxNesting = 0;
     let maxNestingLine = 0;
     
     for (let i = 0; i < lines.length; i++) {
         const line = lines[i];
-        const openBraces = (line.match(/\{/g) || []).length;
-        const closeBraces = (line.match(/\}/g) || []).length;
-        
-        nestingLevel += openBraces - closeBraces;
+        if (indentBlocks) {
+            if (!line.trim() || isCommentLine(line, language)) continue;
+            nestingLevel = indentUnit === Infinity ? 0 : Math.floor(indentOf(line) / indentUnit);
+        } else {
+            const openBraces = (line.match(/\{/g) || []).length;
+            const closeBraces = (line.match(/\}/g) || []).length;
+            
+            nestingLevel += openBraces - closeBraces;
+        }
         
         if (nestingLevel > maxNesting) {
             maxNesting = nestingLevel;
@@ -128,10 +181,10 @@ export function detectDeepNesting(content: string): CodeSmell[] {
         }
     }
     
-    if (maxNesting > 4) {
+    if (maxNesting > maxDepth) {
         smells.push({
             type: 'deep_nesting',
-            severity: maxNesting > 6 ? 'major' : 'minor',
+            severity: maxNesting > majorDepth ? 'major' : 'minor',
             line: maxNestingLine,
             message: `Deep nesting detected (${maxNesting} levels). Consider extracting methods or using early returns.`,
             effort: maxNesting * 10
@@ -144,21 +197,27 @@ export function detectDeepNesting(content: string): CodeSmell[] {
 /**
  * Detect commented code (potential dead code)
  */
-export function detectCommentedCode(content: string): CodeSmell[] {
+export function detectCommentedCode(
+    content: string,
+    options: RuleConfig['commented_code'] = {},
+    language: LanguageId = 'unknown'
+): CodeSmell[] {
+    const { maxLines = 10 } = options;
     const smells: CodeSmell[] = [];
     const lines = content.split('\n');
+    const commentPrefixes = getLanguageInfo(language).lineComments;
     let commentedCodeLines = 0;
     
     for (let i = 0; i < lines.length; i++) {
         const line = lines[i].trim();
         // Check if line is commented and contains code-like patterns
-        if ((line.startsWith('//') || line.startsWith('#')) && 
+        if (commentPrefixes.some(prefix => line.startsWith(prefix)) && !line.startsWith('#!') && 
             (line.includes('=') || line.includes('(') || line.includes('{'))) {
             commentedCodeLines++;
         }
     }
     
-    if (commentedCodeLines > 10) {
+    if (commentedCodeLines > maxLines) {
         smells.push({
             type: 'commented_code',
             severity: 'minor',
@@ -173,10 +232,10 @@ export function detectCommentedCode(content: string): CodeSmell[] {
 /**
  * Detect duplicate code blocks
  */
-export function detectDuplication(content: string): CodeSmell[] {
+export function detectDuplication(content: string, options: RuleConfig['code_duplication'] = {}): CodeSmell[] {
+    const { blockSize = 6, minBlockChars = 50 } = options; // blockSize: minimum lines to consider as duplicate
     const smells: CodeSmell[] = [];
     const lines = content.split('\n');
-    const blockSize = 6; // Minimum lines to consider as duplicate
     const blocks = new Map<string, number[]>();
     
     for (let i = 0; i <= lines.length - blockSize; i++) {
@@ -185,7 +244,7 @@ export function detectDuplication(content: string): CodeSmell[] {
             .filter(l => l.length > 0)
             .join('\n');
         
-        if (block.length > 50) { // Ignore very small blocks
+        if (block.length > minBlockChars) { // Ignore very small blocks
             if (blocks.has(block)) {
                 blocks.get(block)!.push(i);
             } else {
@@ -249,17 +308,114 @@ export function detectMissingErrorHandling(content: string): CodeSmell[] {
     return smells;
 }
 
+/**
+ * Built-in maintainability rules. Findings carry their own effort where it
+ * scales with the problem (e.g. long_method: 15 minutes per 10 lines).
+ */
+export const CODE_SMELL_RULES: RuleDefinition[] = [
+    {
+        id: 'long_method',
+        languages: '*',
+        defaultSeverity: 'major',
+        category: 'maintainability',
+        effort: 15,
+        title: 'Long method',
+        rationale: 'Long functions mix several responsibilities, are hard to test and are where defects concentrate.',
+        remediation: 'Extract cohesive blocks into well-named helper functions until each function does one thing.',
+        effortFormula: '15 min per 10 lines of the function',
+        detect: ({ content, filePath, settings, language }) =>
+            detectLongMethods(content, filePath, settings as RuleConfig['long_method'], language)
+    },
+    {
+        id: 'god_class',
+        languages: '*',
+        defaultSeverity: 'critical',
+        category: 'maintainability',
+        effort: 120,
+        title: 'God class',
+        rationale: 'Very large files accumulate unrelated responsibilities, so every change risks side effects and merge conflicts.',
+        remediation: 'Split the file along its responsibilities into smaller modules with clear interfaces.',
+        effortFormula: '60 min per 100 non-blank lines',
+        detect: ({ content, filePath, settings }) =>
+            detectGodClasses(content, filePath, settings as RuleConfig['god_class'])
+    },
+    {
+        id: 'magic_number',
+        languages: '*',
+        defaultSeverity: 'minor',
+        category: 'maintainability',
+        effort: 5,
+        title: 'Magic number',
+        rationale: 'Unnamed numeric literals hide their meaning and drift apart when the same value is repeated.',
+        remediation: 'Replace the literal with a named constant or configuration value.',
+        effortFormula: '5 min per literal',
+        detect: ({ content, settings, language }) =>
+            detectMagicNumbers(content, settings as RuleConfig['magic_number'], language)
+    },
+    {
+        id: 'deep_nesting',
+        languages: '*',
+        defaultSeverity: 'minor',
+        category: 'maintainability',
+        effort: 10,
+        title: 'Deep nesting',
+        rationale: 'Deeply nested control flow is hard to follow and raises cognitive complexity.',
+        remediation: 'Use guard clauses and early returns, or extract nested blocks into functions.',
+        effortFormula: '10 min per nesting level',
+        detect: ({ content, settings, language }) =>
+            detectDeepNesting(content, settings as RuleConfig['deep_nesting'], language)
+    },
+    {
+        id: 'commented_code',
+        languages: '*',
+        defaultSeverity: 'minor',
+        category: 'maintainability',
+        effort: 2,
+        title: 'Commented-out code',
+        rationale: 'Dead code in comments goes stale, confuses readers and duplicates what version control already keeps.',
+        remediation: 'Delete the commented-out code; recover it from git history if it is ever needed.',
+        effortFormula: '2 min per commented-out line',
+        detect: ({ content, settings, language }) =>
+            detectCommentedCode(content, settings as RuleConfig['commented_code'], language)
+    },
+    {
+        id: 'code_duplication',
+        languages: '*',
+        defaultSeverity: 'minor',
+        category: 'maintainability',
+        effort: 30,
+        title: 'Duplicated code',
+        rationale: 'Copy-pasted blocks must be fixed in every copy, so bugs and changes are easily applied inconsistently.',
+        remediation: 'Extract the repeated block into a shared function or module.',
+        effortFormula: '30 min per duplicated block',
+        detect: ({ content, settings }) =>
+            detectDuplication(content, settings as RuleConfig['code_duplication'])
+    },
+    {
+        id: 'missing_error_handling',
+        languages: '*',
+        defaultSeverity: 'major',
+        category: 'maintainability',
+        effort: 20,
+        title: 'Missing error handling',
+        rationale: 'Async calls without error handling fail silently or crash the process with unhandled rejections.',
+        remediation: 'Wrap awaited calls in try/catch or attach .catch() handlers and handle or propagate the error.',
+        effortFormula: '20 min per file',
+        detect: ({ content }) => detectMissingErrorHandling(content)
+    }
+];
+
 /**
  * Analyze all code smells in a file
+ * Disabled rules are skipped and configured severities applied; once `budget`
+ * expires the remaining rules are skipped and recorded on it
  */
-export function analyzeCodeSmells(content: string, filePath: string): CodeSmell[] {
-    return [
-        ...detectLongMethods(content, filePath),
-        ...detectGodClasses(content, filePath),
-        ...detectMagicNumbers(content),
-        ...detectDeepNesting(content),
-        ...detectCommentedCode(content),
-        ...detectDuplication(content),
-        ...detectMissingErrorHandling(content)
-    ];
+export function analyzeCodeSmells(
+    content: string,
+    filePath: string,
+    rules: RuleConfig = {},
+    language: LanguageId = detectLanguage(filePath, content),
+    budget?: TimeBudget
+): CodeSmell[] {
+    return runRules(CODE_SMELL_RULES, { content, lines: content.split('\n'), filePath, language }, rules, budget);
 }
@@ -3,6 +3,22 @@
  * Calculates cyclomatic and cognitive complexity for code quality assessment
  */
 
+import { LanguageId, detectLanguage } from './language.js';
+
+// Languages sharing another language's grammar for these metrics
+const GRAMMAR_ALIASES: Partial<Record<LanguageId, 'javascript' | 'typescript' | 'python' | 'java' | 'go' | 'rust'>> = {
+    c: 'java',
+    cpp: 'java',
+    csharp: 'java',
+    kotlin: 'java',
+    swift: 'java',
+    php: 'javascript'
+};
+
+function grammarFor(language: LanguageId): string {
+    return GRAMMAR_ALIASES[language] ?? language;
+}
+
 export interface ComplexityMetrics {
     cyclomatic: number;
     cognitive: number;
@@ -14,20 +30,22 @@ export interface ComplexityMetrics {
  * Calculate cyclomatic complexity (McCabe complexity)
  * Counts the number of linearly independent paths through code
  */
-export function calculateCyclomaticComplexity(content: string, fileExtension: string): number {
+export function calculateCyclomaticComplexity(content: string, language: LanguageId): number {
     let complexity = 1; // Base complexity
     
     // Control flow keywords that increase complexity
     const patterns = {
-        js: /\b(if|else if|for|while|case|catch|&&|\|\||\\?(?!\.))/g,
-        ts: /\b(if|else if|for|while|case|catch|&&|\|\||\\?(?!\.))/g,
-        py: /\b(if|elif|for|while|except|and|or)\b/g,
+        javascript: /\b(if|else if|for|while|case|catch|&&|\|\||\\?(?!\.))/g,
+        typescript: /\b(if|else if|for|while|case|catch|&&|\|\||\\?(?!\.))/g,
+        python: /\b(if|elif|for|while|except|and|or)\b/g,
         java: /\b(if|else if|for|while|case|catch|&&|\|\||\\?(?!\.))/g,
         go: /\b(if|else if|for|case|&&|\|\|)/g,
-        rs: /\b(if|else if|for|while|match|&&|\|\|)/g
+        rust: /\b(if|else if|for|while|match|&&|\|\|)/g,
+        ruby: /\b(if|elsif|unless|while|until|for|when|rescue|and|or|&&|\|\|)/g,
+        shell: /\b(if|elif|for|while|until|case|&&|\|\|)/g
     };
     
-    const pattern = patterns[fileExtension as keyof typeof patterns] || patterns.js;
+    const pattern = patterns[grammarFor(language) as keyof typeof patterns] || patterns.javascript;
     const matches = content.match(pattern);
     
     if (matches) {
@@ -41,21 +59,23 @@ export function calculateCyclomaticComplexity(content: string, fileExtension: st
  * Calculate cognitive complexity
  * Measures how difficult code is to understand (not just paths)
  */
-export function calculateCognitiveComplexity(content: string, fileExtension: string): number {
+export function calculateCognitiveComplexity(content: string, language: LanguageId): number {
     let complexity = 0;
     let nestingLevel = 0;
     const lines = content.split('\n');
     
     const incrementors = {
-        js: ['if', 'else if', 'for', 'while', 'case', 'catch', '&&', '||', '?'],
-        ts: ['if', 'else if', 'for', 'while', 'case', 'catch', '&&', '||', '?'],
-        py: ['if', 'elif', 'for', 'while', 'except', 'and', 'or'],
+        javascript: ['if', 'else if', 'for', 'while', 'case', 'catch', '&&', '||', '?'],
+        typescript: ['if', 'else if', 'for', 'while', 'case', 'catch', '&&', '||', '?'],
+        python: ['if', 'elif', 'for', 'while', 'except', 'and', 'or'],
         java: ['if', 'else if', 'for', 'while', 'case', 'catch', '&&', '||', '?'],
         go: ['if', 'else if', 'for', 'case', '&&', '||'],
-        rs: ['if', 'else if', 'for', 'while', 'match', '&&', '||']
+        rust: ['if', 'else if', 'for', 'while', 'match', '&&', '||'],
+        ruby: ['if', 'elsif', 'unless', 'while', 'until', 'for', 'when', 'rescue', '&&', '||'],
+        shell: ['if', 'elif', 'for', 'while', 'until', 'case', '&&', '||']
     };
     
-    const keywords = incrementors[fileExtension as keyof typeof incrementors] || incrementors.js;
+    const keywords = incrementors[grammarFor(language) as keyof typeof incrementors] || incrementors.javascript;
     
     for (const line of lines) {
         const trimmed = line.trim();
@@ -85,17 +105,19 @@ export function calculateCognitiveComplexity(content: string, fileExtension: str
 /**
  * Count the number of functions in the code
  */
-export function countFunctions(content: string, fileExtension: string): number {
+export function countFunctions(content: string, language: LanguageId): number {
     const patterns = {
-        js: /\b(function\s+\w+|const\s+\w+\s*=\s*\(.*\)\s*=>|class\s+\w+.*\{[\s\S]*?(\w+\s*\(.*\)\s*\{))/g,
-        ts: /\b(function\s+\w+|const\s+\w+\s*=\s*\(.*\)\s*=>|class\s+\w+.*\{[\s\S]*?(\w+\s*\(.*\)\s*\{))/g,
-        py: /\bdef\s+\w+\s*\(/g,
+        javascript: /\b(function\s+\w+|const\s+\w+\s*=\s*\(.*\)\s*=>|class\s+\w+.*\{[\s\S]*?(\w+\s*\(.*\)\s*\{))/g,
+        typescript: /\b(function\s+\w+|const\s+\w+\s*=\s*\(.*\)\s*=>|class\s+\w+.*\{[\s\S]*?(\w+\s*\(.*\)\s*\{))/g,
+        python: /\bdef\s+\w+\s*\(/g,
         java: /(public|private|protected)?\s*(static)?\s*\w+\s+\w+\s*\(/g,
         go: /\bfunc\s+(\(\w+\s+\*?\w+\)\s*)?\w+\s*\(/g,
-        rs: /\bfn\s+\w+\s*\(/g
+        rust: /\bfn\s+\w+\s*\(/g,
+        ruby: /\bdef\s+(self\.)?\w+[?!]?/g,
+        shell: /^\s*(function\s+\w+|\w+\s*\(\)\s*\{)/gm
     };
     
-    const pattern = patterns[fileExtension as keyof typeof patterns] || patterns.js;
+    const pattern = patterns[grammarFor(language) as keyof typeof patterns] || patterns.javascript;
     const matches = content.match(pattern);
     
     return matches ? matches.length : 0;
@@ -104,11 +126,14 @@ export function countFunctions(content: string, fileExtension: string): number {
 /**
  * Analyze overall complexity metrics for a file
  */
-export function analyzeComplexity(content: string, filePath: string): ComplexityMetrics {
-    const ext = filePath.split('.').pop() || 'js';
-    const cyclomatic = calculateCyclomaticComplexity(content, ext);
-    const cognitive = calculateCognitiveComplexity(content, ext);
-    const functions = countFunctions(content, ext);
+export function analyzeComplexity(
+    content: string,
+    filePath: string,
+    language: LanguageId = detectLanguage(filePath, content)
+): ComplexityMetrics {
+    const cyclomatic = calculateCyclomaticComplexity(content, language);
+    const cognitive = calculateCognitiveComplexity(content, language);
+    const functions = countFunctions(content, language);
     
     return {
         cyclomatic,
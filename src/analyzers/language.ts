@@ -0,0 +1,165 @@
+/**
+ * Language Detection Module
+ * Resolves a canonical language ID from file extension, shebang and content heuristics
+ */
+
+export type LanguageId =
+    | 'javascript'
+    | 'typescript'
+    | 'python'
+    | 'java'
+    | 'go'
+    | 'rust'
+    | 'c'
+    | 'cpp'
+    | 'csharp'
+    | 'php'
+    | 'ruby'
+    | 'swift'
+    | 'kotlin'
+    | 'shell'
+    | 'unknown';
+
+export interface LanguageInfo {
+    id: LanguageId;
+    lineComments: string[]; // line comment prefixes
+    blockComment?: [string, string];
+    indentBlocks: boolean; // blocks are delimited by indentation rather than braces
+}
+
+const C_STYLE = { lineComments: ['//'], blockComment: ['/*', '*/'] as [string, string], indentBlocks: false };
+
+const LANGUAGES: Record<LanguageId, LanguageInfo> = {
+    javascript: { id: 'javascript', ...C_STYLE },
+    typescript: { id: 'typescript', ...C_STYLE },
+    python: { id: 'python', lineComments: ['#'], indentBlocks: true },
+    java: { id: 'java', ...C_STYLE },
+    go: { id: 'go', ...C_STYLE },
+    rust: { id: 'rust', ...C_STYLE },
+    c: { id: 'c', ...C_STYLE },
+    cpp: { id: 'cpp', ...C_STYLE },
+    csharp: { id: 'csharp', ...C_STYLE },
+    php: { id: 'php', lineComments: ['//', '#'], blockComment: ['/*', '*/'], indentBlocks: false },
+    ruby: { id: 'ruby', lineComments: ['#'], blockComment: ['=begin', '=end'], indentBlocks: false },
+    swift: { id: 'swift', ...C_STYLE },
+    kotlin: { id: 'kotlin', ...C_STYLE },
+    shell: { id: 'shell', lineComments: ['#'], indentBlocks: false },
+    // Unknown files keep the historical behaviour of being treated like JavaScript
+    unknown: { id: 'unknown', lineComments: ['//', '#'], blockComment: ['/*', '*/'], indentBlocks: false }
+};
+
+const EXTENSIONS: Record<string, LanguageId> = {
+    js: 'javascript', mjs: 'javascript', cjs: 'javascript', jsx: 'javascript',
+    ts: 'typescript', mts: 'typescript', cts: 'typescript', tsx: 'typescript',
+    py: 'python', pyw: 'python', pyi: 'python',
+    java: 'java',
+    go: 'go',
+    rs: 'rust',
+    c: 'c',
+    cc: 'cpp', cpp: 'cpp', cxx: 'cpp', hpp: 'cpp', hh: 'cpp', hxx: 'cpp',
+    cs: 'csharp',
+    php: 'php',
+    rb: 'ruby', rake: 'ruby',
+    swift: 'swift',
+    kt: 'kotlin', kts: 'kotlin',
+    sh: 'shell', bash: 'shell', zsh: 'shell'
+};
+
+// Interpreter name in a shebang (after env/path stripping) -> language
+const INTERPRETERS: Array<[RegExp, LanguageId]> = [
+    [/^(node|nodejs|bun)$/, 'javascript'],
+    [/^(deno|ts-node|tsx)$/, 'typescript'],
+    [/^python[\d.]*$/, 'python'],
+    [/^ruby$/, 'ruby'],
+    [/^php$/, 'php'],
+    [/^(sh|bash|zsh|dash|ksh)$/, 'shell']
+];
+
+// Well-known extensionless file names
+const FILE_NAMES: Record<string, LanguageId> = {
+    Rakefile: 'ruby',
+    Gemfile: 'ruby',
+    Jakefile: 'javascript'
+};
+
+/**
+ * Read the interpreter from a `#!` line, e.g. `#!/usr/bin/env -S python3 -u`
+ */
+export function detectShebang(content: string): LanguageId | null {
+    if (!content.startsWith('#!')) return null;
+
+    const words = content.substring(2, content.indexOf('\n') === -1 ? undefined : content.indexOf('\n')).trim().split(/\s+/);
+    let interpreter = words[0]?.split('/').pop() ?? '';
+    if (interpreter === 'env') {
+        interpreter = words.slice(1).find(w => !w.startsWith('-') && !w.includes('=')) ?? '';
+    }
+
+    for (const [pattern, language] of INTERPRETERS) {
+        if (pattern.test(interpreter)) return language;
+    }
+    return null;
+}
+
+/**
+ * Guess a language from content alone (first ~200 lines)
+ */
+function detectFromContent(content: string): LanguageId {
+    const sample = content.split('\n').slice(0, 200).join('\n');
+
+    if (/^package\s+\w+\s*$/m.test(sample) && /^func\s/m.test(sample)) return 'go';
+    if (/^\s*fn\s+\w+\s*[<(]/m.test(sample) && /\b(let\s+mut|impl|pub\s+fn|use\s+\w+::)/.test(sample)) return 'rust';
+    if (/^<\?php/.test(sample)) return 'php';
+    if (/^\s*(def\s+\w+\s*\(.*\)\s*(->\s*[^:]+)?:|class\s+\w+(\(.*\))?:|from\s+[\w.]+\s+import\s)/m.test(sample)) return 'python';
+    if (/^\s*(interface|type)\s+\w+.*[={]/m.test(sample) || /:\s*(string|number|boolean)\b/.test(sample)) return 'typescript';
+    if (/\b(function\s+\w*\s*\(|const\s+\w+\s*=|require\(|module\.exports|=>)/.test(sample)) return 'javascript';
+    return 'unknown';
+}
+
+/**
+ * Distinguish C from C++ for shared `.h` headers
+ */
+function detectHeader(content: string): LanguageId {
+    return /\b(class|namespace|template\s*<|std::|public:|private:)/.test(content) ? 'cpp' : 'c';
+}
+
+/**
+ * Detect the canonical language of a file. Extensions win when unambiguous;
+ * otherwise the shebang and finally content heuristics decide.
+ */
+export function detectLanguage(filePath: string, content: string): LanguageId {
+    const fileName = filePath.split(/[\\/]/).pop() ?? filePath;
+    const dot = fileName.lastIndexOf('.');
+    const ext = dot > 0 ? fileName.substring(dot + 1).toLowerCase() : '';
+
+    if (ext === 'h') return detectHeader(content);
+    if (EXTENSIONS[ext]) return EXTENSIONS[ext];
+    if (FILE_NAMES[fileName]) return FILE_NAMES[fileName];
+
+    return detectShebang(content) ?? detectFromContent(content);
+}
+
+/**
+ * Comment syntax and block structure for a language
+ */
+export function getLanguageInfo(language: LanguageId): LanguageInfo {
+    return LANGUAGES[language] ?? LANGUAGES.unknown;
+}
+
+/**
+ * Languages that run JavaScript APIs (Math.random, require, ...); unknown files are included
+ */
+export function isJavaScriptLike(language: LanguageId): boolean {
+    return language === 'javascript' || language === 'typescript' || language === 'unknown';
+}
+
+/**
+ * Check whether a (trimmed) line is a comment in the given language
+ */
+export function isCommentLine(line: string, language: LanguageId): boolean {
+    const trimmed = line.trim();
+    const info = getLanguageInfo(language);
+    if (info.lineComments.some(prefix => trimmed.startsWith(prefix))) return true;
+    // Block comment openers and the `*` continuation lines of C-style doc comments
+    return info.blockComment !== undefined &&
+        (trimmed.startsWith(info.blockComment[0]) || (info.blockComment[0] === '/*' && trimmed.startsWith('*')));
+}
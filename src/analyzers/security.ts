@@ -3,13 +3,19 @@
  * Identifies common security issues and vulnerabilities
  */
 
+import { RuleConfig } from '../config/config.js';
+import { LanguageId, isJavaScriptLike } from './language.js';
+import { TimeBudget } from './timeBudget.js';
+import { RuleDefinition, runRules } from '../rules/registry.js';
+
 export interface SecurityIssue {
     type: string;
-    severity: 'blocker' | 'critical' | 'major';
+    severity: 'blocker' | 'critical' | 'major' | 'minor' | 'info';
     line?: number;
     message: string;
     cwe?: string; // Common Weakness Enumeration
     effort: number;
+    fingerprint?: string; // content-aware identity, set by scanFile
 }
 
 /**
@@ -101,8 +107,9 @@ export function detectXSS(content: string): SecurityIssue[] {
 /**
  * Detect insecure random number generation
  */
-export function detectInsecureRandom(content: string): SecurityIssue[] {
+export function detectInsecureRandom(content: string, language: LanguageId = 'unknown'): SecurityIssue[] {
     const issues: SecurityIssue[] = [];
+    if (!isJavaScriptLike(language)) return issues;
     const lines = content.split('\n');
     
     for (let i = 0; i < lines.length; i++) {
@@ -150,13 +157,15 @@ export function detectEvalUsage(content: string): SecurityIssue[] {
 /**
  * Detect insecure dependencies
  */
-export function detectInsecureDependencies(content: string): SecurityIssue[] {
+export function detectInsecureDependencies(content: string, language: LanguageId = 'unknown'): SecurityIssue[] {
     const issues: SecurityIssue[] = [];
     
-    // Check for known vulnerable patterns
+    // Check for known vulnerable patterns (require() checks only apply to JavaScript)
     const vulnerablePatterns = [
-        { pattern: /require\(['"]child_process['"]\)/, message: 'child_process usage can be dangerous if not properly sanitized' },
-        { pattern: /require\(['"]fs['"]\)/, message: 'File system access should be carefully controlled' },
+        ...(isJavaScriptLike(language) ? [
+            { pattern: /require\(['"]child_process['"]\)/, message: 'child_process usage can be dangerous if not properly sanitized' },
+            { pattern: /require\(['"]fs['"]\)/, message: 'File system access should be carefully controlled' }
+        ] : []),
         { pattern: /exec\(|spawn\(/, message: 'Command execution can lead to command injection if not sanitized' }
     ];
     
@@ -181,16 +190,106 @@ export function detectInsecureDependencies(content: string): SecurityIssue[] {
     return issues;
 }
 
+/**
+ * Built-in security rules
+ */
+export const SECURITY_RULES: RuleDefinition[] = [
+    {
+        id: 'hardcoded_secret',
+        languages: '*',
+        defaultSeverity: 'blocker',
+        category: 'security',
+        effort: 15,
+        cwe: 'CWE-798',
+        title: 'Hardcoded secret',
+        rationale: 'Credentials committed to source leak to everyone with repository access and outlive rotation.',
+        remediation: 'Move the secret to environment variables or a secret manager, then rotate the exposed credential.',
+        owasp: ['A07:2021 Identification and Authentication Failures'],
+        effortFormula: '15 min per secret',
+        detect: ({ content }) => detectHardcodedSecrets(content)
+    },
+    {
+        id: 'sql_injection',
+        languages: '*',
+        defaultSeverity: 'blocker',
+        category: 'security',
+        effort: 30,
+        cwe: 'CWE-89',
+        title: 'SQL injection',
+        rationale: 'Building SQL from string concatenation lets attacker-controlled input change the query.',
+        remediation: "Use parameterized queries or the query builder's placeholders instead of concatenation.",
+        owasp: ['A03:2021 Injection'],
+        effortFormula: '30 min per query',
+        detect: ({ content }) => detectSQLInjection(content)
+    },
+    {
+        id: 'xss_vulnerability',
+        languages: '*',
+        defaultSeverity: 'critical',
+        category: 'security',
+        effort: 25,
+        cwe: 'CWE-79',
+        title: 'Cross-site scripting',
+        rationale: "Writing unsanitized values into the DOM lets attackers run script in users' browsers.",
+        remediation: 'Use textContent or framework bindings, or sanitize HTML with a vetted library before inserting it.',
+        owasp: ['A03:2021 Injection'],
+        effortFormula: '25 min per sink',
+        detect: ({ content }) => detectXSS(content)
+    },
+    {
+        id: 'insecure_random',
+        languages: ['javascript', 'typescript', 'unknown'],
+        defaultSeverity: 'critical',
+        category: 'security',
+        effort: 10,
+        cwe: 'CWE-338',
+        title: 'Insecure randomness',
+        rationale: 'Math.random() is predictable and must not be used for tokens, IDs or other security-sensitive values.',
+        remediation: 'Use crypto.randomUUID() or crypto.getRandomValues() / crypto.randomBytes().',
+        owasp: ['A02:2021 Cryptographic Failures'],
+        effortFormula: '10 min per call',
+        detect: ({ content, language }) => detectInsecureRandom(content, language)
+    },
+    {
+        id: 'eval_usage',
+        languages: '*',
+        defaultSeverity: 'critical',
+        category: 'security',
+        effort: 20,
+        cwe: 'CWE-95',
+        title: 'Dynamic code evaluation',
+        rationale: 'eval() and new Function() execute arbitrary strings, turning any injected input into code execution.',
+        remediation: 'Replace eval with JSON.parse, lookup tables or explicit dispatch.',
+        owasp: ['A03:2021 Injection'],
+        effortFormula: '20 min per call',
+        detect: ({ content }) => detectEvalUsage(content)
+    },
+    {
+        id: 'insecure_dependency',
+        languages: '*',
+        defaultSeverity: 'major',
+        category: 'security',
+        effort: 20,
+        cwe: 'CWE-78',
+        title: 'Dangerous module or command execution',
+        rationale: 'Shell commands and unrestricted file system access turn unsanitized input into command injection or path traversal.',
+        remediation: 'Use execFile/spawn with an argument array, validate inputs and confine file access to known directories.',
+        owasp: ['A03:2021 Injection'],
+        effortFormula: '20 min per call',
+        detect: ({ content, language }) => detectInsecureDependencies(content, language)
+    }
+];
+
 /**
  * Analyze all security issues in a file
+ * Disabled rules are skipped and configured severities applied; once `budget`
+ * expires the remaining rules are skipped and recorded on it
  */
-export function analyzeSecurityIssues(content: string): SecurityIssue[] {
-    return [
-        ...detectHardcodedSecrets(content),
-        ...detectSQLInjection(content),
-        ...detectXSS(content),
-        ...detectInsecureRandom(content),
-        ...detectEvalUsage(content),
-        ...detectInsecureDependencies(content)
-    ];
+export function analyzeSecurityIssues(
+    content: string,
+    rules: RuleConfig = {},
+    language: LanguageId = 'unknown',
+    budget?: TimeBudget
+): SecurityIssue[] {
+    return runRules(SECURITY_RULES, { content, lines: content.split('\n'), filePath: '', language }, rules, budget);
 }
@@ -0,0 +1,43 @@
+/**
+ * Analysis Time Budget
+ * Lets a file's analysis stop running further rules once its time allowance is spent
+ */
+
+export interface TimeBudget {
+    limitMs?: number; // undefined = unlimited
+    /** True once the allowance is used up */
+    expired(): boolean;
+    elapsedMs(): number;
+    /** Rules that were not run because the budget had expired */
+    skippedRules: string[];
+}
+
+/**
+ * Start a time budget. Without a limit the budget never expires.
+ */
+export function createTimeBudget(limitMs?: number): TimeBudget {
+    const startedAt = Date.now();
+    const elapsedMs = () => Date.now() - startedAt;
+
+    return {
+        limitMs,
+        expired: () => limitMs !== undefined && elapsedMs() >= limitMs,
+        elapsedMs,
+        skippedRules: []
+    };
+}
+
+/**
+ * Run rule detectors in order, skipping (and recording) the rest once the budget expires
+ */
+export function runWithinBudget<T>(detectors: Array<[string, () => T[]]>, budget?: TimeBudget): T[] {
+    const findings: T[] = [];
+    for (const [type, detect] of detectors) {
+        if (budget?.expired()) {
+            budget.skippedRules.push(type);
+            continue;
+        }
+        findings.push(...detect());
+    }
+    return findings;
+}
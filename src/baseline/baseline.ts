@@ -0,0 +1,150 @@
+/**
+ * Issue Baseline
+ * Records known issue fingerprints so later scans can report only new debt
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { ScanResult } from '../scanner.js';
+
+// Bump when the baseline file layout or issue fingerprinting changes
+const BASELINE_FORMAT_VERSION = 2;
+
+export const DEFAULT_BASELINE_PATH = join('.techdebt', 'baseline.json');
+
+export type BaselineStatus = 'new' | 'existing' | 'fixed';
+
+export interface BaselineEntry {
+    id: string; // fingerprint from generateIssueId
+    type: string;
+    severity: string;
+    file: string;
+    line?: number;
+    message: string;
+    effort: number;
+}
+
+export interface BaselineFile {
+    formatVersion: number;
+    createdAt: string;
+    issues: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+    path: string;
+    createdAt: string;
+    newIssues: number;
+    existingIssues: number;
+    fixedIssues: number | null; // null in PR mode, where only changed lines are analyzed
+    newDebtMinutes: number;
+    fixed: BaselineEntry[];
+}
+
+export interface BaselineScope {
+    partial?: boolean; // PR mode: only findings on changed lines are reported
+    analyzedFiles?: Set<string>; // files fully analyzed by the scan (default: every file)
+    deletedFiles?: Set<string>; // baseline files that no longer exist
+}
+
+/**
+ * Build a baseline from the issues of a scan
+ */
+export function createBaseline(issues: ScanResult['issues']): BaselineFile {
+    return {
+        formatVersion: BASELINE_FORMAT_VERSION,
+        createdAt: new Date().toISOString(),
+        issues: issues
+            .map(issue => ({
+                id: issue.id,
+                type: issue.type,
+                severity: issue.severity,
+                file: issue.file,
+                line: issue.line,
+                message: issue.message,
+                effort: issue.effort
+            }))
+            .sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0) || a.id.localeCompare(b.id))
+    };
+}
+
+/**
+ * Write a baseline file, creating parent directories as needed
+ */
+export async function writeBaseline(path: string, baseline: BaselineFile): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Load a baseline file, or null if it does not exist
+ */
+export async function loadBaseline(path: string): Promise<BaselineFile | null> {
+    let raw: string;
+    try {
+        raw = await readFile(path, 'utf-8');
+    } catch {
+        return null;
+    }
+
+    const data = JSON.parse(raw) as BaselineFile;
+    if (data.formatVersion !== BASELINE_FORMAT_VERSION || !Array.isArray(data.issues)) {
+        throw new Error(`Unsupported baseline format in ${path}. Recreate it with create_baseline.`);
+    }
+    return data;
+}
+
+/**
+ * Mark each issue in the scan as new or existing relative to the baseline, and list
+ * baseline issues that no longer occur as fixed.
+ * Only issues of analyzed or deleted files can be fixed: a file that was skipped, timed out
+ * or fell outside the include patterns says nothing about its issues. A `partial` scan
+ * (PR mode) only reports findings on changed lines, so fixed issues are not counted at all.
+ */
+export function applyBaseline(
+    scanResult: ScanResult,
+    baseline: BaselineFile,
+    path: string,
+    scope: BaselineScope = {}
+): BaselineComparison {
+    const { partial = false, analyzedFiles, deletedFiles } = scope;
+
+    // Multiset of fingerprints, so repeated identical findings are matched one-to-one
+    const remaining = new Map<string, BaselineEntry[]>();
+    for (const entry of baseline.issues) {
+        const list = remaining.get(entry.id) ?? [];
+        list.push(entry);
+        remaining.set(entry.id, list);
+    }
+
+    let newIssues = 0;
+    let existingIssues = 0;
+    let newDebtMinutes = 0;
+    for (const issue of scanResult.issues) {
+        const matches = remaining.get(issue.id);
+        if (matches && matches.length > 0) {
+            matches.pop();
+            issue.baselineStatus = 'existing';
+            existingIssues++;
+        } else {
+            issue.baselineStatus = 'new';
+            newIssues++;
+            newDebtMinutes += issue.effort;
+        }
+    }
+
+    const fixed = partial
+        ? []
+        : [...remaining.values()].flat().filter(entry =>
+            !analyzedFiles || analyzedFiles.has(entry.file) || deletedFiles?.has(entry.file)
+        );
+
+    return {
+        path,
+        createdAt: baseline.createdAt,
+        newIssues,
+        existingIssues,
+        fixedIssues: partial ? null : fixed.length,
+        newDebtMinutes,
+        fixed
+    };
+}
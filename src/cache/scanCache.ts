@@ -0,0 +1,146 @@
+/**
+ * Incremental Scan Cache
+ * Persists per-file scanFile output under .techdebt/cache so unchanged files are not re-analyzed
+ */
+
+import { createHash } from 'crypto';
+import { access, mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { FileScanResult } from '../scanner.js';
+
+// Bump when the on-disk cache layout changes
+const CACHE_FORMAT_VERSION = 1;
+
+export const CACHE_DIR = join('.techdebt', 'cache');
+const CACHE_FILE = 'scan-cache.json';
+
+interface CacheEntry {
+    hash: string;
+    result: FileScanResult;
+}
+
+interface CacheFile {
+    formatVersion: number;
+    fingerprint: string;
+    entries: Record<string, CacheEntry>;
+}
+
+export interface ScanCache {
+    repoPath: string;
+    cachePath: string;
+    fingerprint: string;
+    entries: Map<string, CacheEntry>;
+    hits: number;
+    misses: number;
+}
+
+/**
+ * Hash file content for cache lookups
+ */
+export function hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Fingerprint the analyzer code and rule configuration.
+ * Any change to the compiled analyzer modules or the rule settings yields a new
+ * fingerprint, which invalidates every cached entry.
+ */
+export async function computeCacheFingerprint(ruleConfig: unknown = {}): Promise<string> {
+    const hash = createHash('sha256');
+    hash.update(`format:${CACHE_FORMAT_VERSION}\n`);
+    hash.update(`rules:${JSON.stringify(ruleConfig)}\n`);
+
+    // Modules that shape scanFile output: the scanner and its helpers, every analyzer and the rule runner
+    const sources: string[] = [];
+    for (const dir of ['../', '../analyzers/', '../rules/']) {
+        const dirPath = fileURLToPath(new URL(dir, import.meta.url));
+        try {
+            const modules = (await readdir(dirPath))
+                .filter(f => f.endsWith('.js'))
+                .sort();
+            sources.push(...modules.map(f => join(dirPath, f)));
+        } catch {
+            // Directory not readable - fingerprint what is available
+        }
+    }
+
+    for (const source of sources) {
+        try {
+            hash.update(await readFile(source));
+        } catch {
+            hash.update(`missing:${source}`);
+        }
+    }
+
+    return hash.digest('hex').substring(0, 16);
+}
+
+/**
+ * Load the scan cache for a repository.
+ * A cache written with a different fingerprint is discarded.
+ */
+export async function loadScanCache(repoPath: string, fingerprint: string): Promise<ScanCache> {
+    const cachePath = join(repoPath, CACHE_DIR, CACHE_FILE);
+    const entries = new Map<string, CacheEntry>();
+
+    try {
+        const data: CacheFile = JSON.parse(await readFile(cachePath, 'utf-8'));
+        if (data.formatVersion === CACHE_FORMAT_VERSION && data.fingerprint === fingerprint) {
+            for (const [file, entry] of Object.entries(data.entries)) {
+                entries.set(file, entry);
+            }
+        } else {
+            console.error('[TechDebt] Scan cache invalidated (analyzer or rule configuration changed)');
+        }
+    } catch {
+        // No cache yet, or unreadable - start fresh
+    }
+
+    return { repoPath, cachePath, fingerprint, entries, hits: 0, misses: 0 };
+}
+
+/**
+ * Look up a cached scan result for a file whose content hash still matches
+ */
+export function getCachedResult(cache: ScanCache, file: string, hash: string): FileScanResult | undefined {
+    const entry = cache.entries.get(file);
+    if (entry && entry.hash === hash) {
+        cache.hits++;
+        return entry.result;
+    }
+    cache.misses++;
+    return undefined;
+}
+
+/**
+ * Store a scan result for a file
+ */
+export function setCachedResult(cache: ScanCache, file: string, hash: string, result: FileScanResult): void {
+    cache.entries.set(file, { hash, result });
+}
+
+/**
+ * Persist the cache to disk.
+ * Entries of files that no longer exist are pruned; entries of files this scan did not
+ * analyze (narrower include patterns, PR mode, skipped files) are kept for the next scan.
+ */
+export async function saveScanCache(cache: ScanCache): Promise<void> {
+    const entries: Record<string, CacheEntry> = {};
+    const exists = await Promise.all([...cache.entries.keys()].map(file =>
+        access(join(cache.repoPath, file)).then(() => true, () => false)
+    ));
+    [...cache.entries].forEach(([file, entry], index) => {
+        if (exists[index]) entries[file] = entry;
+    });
+
+    const data: CacheFile = {
+        formatVersion: CACHE_FORMAT_VERSION,
+        fingerprint: cache.fingerprint,
+        entries
+    };
+
+    await mkdir(dirname(cache.cachePath), { recursive: true });
+    await writeFile(cache.cachePath, JSON.stringify(data), 'utf-8');
+}
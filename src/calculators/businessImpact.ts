@@ -3,6 +3,8 @@
  * Translates technical debt into business metrics (cost, time, risk)
  */
 
+import { CostModel } from '../config/config.js';
+
 export interface BusinessImpact {
     financialCost: number; // USD
     timeToFix: string; // Human readable
@@ -12,9 +14,12 @@ export interface BusinessImpact {
     recommendations: string[];
 }
 
-// Average developer hourly rate (can be configured)
+// Average developer hourly rate (override with costModel.hourlyRate in .techdebtrc)
 const DEVELOPER_HOURLY_RATE = 75; // USD
 
+// Assume 30 minutes to develop 1 line of code (industry standard)
+const DEVELOPMENT_MINUTES_PER_LINE = 30;
+
 /**
  * Calculate SQALE Rating based on technical debt ratio
  * A: ≤5%, B: 5-10%, C: 10-20%, D: 20-50%, E: >50%
@@ -31,9 +36,12 @@ export function calculateSQALERating(debtRatio: number): 'A' | 'B' | 'C' | 'D' |
  * Calculate technical debt ratio
  * Formula: (Technical Debt / Development Cost) * 100
  */
-export function calculateDebtRatio(totalDebtMinutes: number, linesOfCode: number): number {
-    // Assume 30 minutes to develop 1 line of code (industry standard)
-    const developmentCost = linesOfCode * 30;
+export function calculateDebtRatio(
+    totalDebtMinutes: number,
+    linesOfCode: number,
+    minutesPerLine: number = DEVELOPMENT_MINUTES_PER_LINE
+): number {
+    const developmentCost = linesOfCode * minutesPerLine;
     if (developmentCost === 0) return 0;
     return (totalDebtMinutes / developmentCost) * 100;
 }
@@ -177,16 +185,18 @@ export function calculateBusinessImpact(
     issues: any[],
     cyclomaticComplexity: number,
     codeSmells: number,
-    testCoverage: number
+    testCoverage: number,
+    costModel: Partial<CostModel> = {}
 ): BusinessImpact {
-    const debtRatio = calculateDebtRatio(totalDebtMinutes, linesOfCode);
+    const { hourlyRate = DEVELOPER_HOURLY_RATE, minutesPerLine = DEVELOPMENT_MINUTES_PER_LINE } = costModel;
+    const debtRatio = calculateDebtRatio(totalDebtMinutes, linesOfCode, minutesPerLine);
     const sqaleRating = calculateSQALERating(debtRatio);
     const riskScore = calculateRiskScore(issues);
     
     const securityIssues = issues.filter(i => i.category === 'security').length;
     const reliabilityIssues = issues.filter(i => i.category === 'reliability').length;
     
-    const financialCost = (totalDebtMinutes / 60) * DEVELOPER_HOURLY_RATE;
+    const financialCost = (totalDebtMinutes / 60) * hourlyRate;
     const timeToFix = formatTime(totalDebtMinutes);
     const productivityImpact = assessProductivityImpact(cyclomaticComplexity, codeSmells, debtRatio);
     const customerImpact = assessCustomerImpact(securityIssues, reliabilityIssues);
@@ -7,7 +7,7 @@ export interface EnterpriseMetrics {
     // Core KPIs
     technicalDebtRatio: number; // TDR: (Debt Time / Total Dev Time) × 100
     defectDensity: number; // Defects per 1000 lines of code
-    codeChurnRate: number; // % of code changed frequently
+    codeChurnRate: number; // lines added + deleted in the churn window per 100 lines of code (0 without git history)
     cycleTime: {
         average: number; // Average time to fix issues (hours)
         median: number;
@@ -35,7 +35,10 @@ export interface EnterpriseMetrics {
     // Quality Metrics
     testCoverage: {
         overall: number;
-        unit: number;
+        line: number; // % of lines (statements for Go) covered
+        branch: number | null; // % of branches covered, null when unknown
+        source: 'report' | 'estimate'; // coverage reports, or test file count when there are none
+        unit: number; // unit/integration/e2e split is estimated from the overall figure
         integration: number;
         e2e: number;
     };
@@ -94,15 +97,15 @@ export function calculateDefectDensity(
 }
 
 /**
- * Calculate Code Churn Rate
+ * Calculate Code Churn Rate from git history (lines added + deleted per 100 lines)
  * High churn indicates unstable code
  */
 export function calculateCodeChurn(
-    filesWithHighComplexity: number,
-    totalFiles: number
+    linesChanged: number,
+    totalLines: number
 ): number {
-    if (totalFiles === 0) return 0;
-    return (filesWithHighComplexity / totalFiles) * 100;
+    if (totalLines === 0) return 0;
+    return (linesChanged / totalLines) * 100;
 }
 
 /**
@@ -327,10 +330,15 @@ export function calculateEnterpriseMetrics(
         scanResult.summary.totalLines
     );
     
-    const codeChurnRate = calculateCodeChurn(
-        scanResult.summary.complexity.highComplexityFiles,
-        scanResult.summary.totalFiles
-    );
+    const churn = scanResult.summary.churn;
+    const codeChurnRate = churn
+        ? calculateCodeChurn(churn.linesAdded + churn.linesDeleted, scanResult.summary.totalLines)
+        : 0;
+    
+    // Share of high-complexity files, the basis of the duplication estimate
+    const highComplexityShare = scanResult.summary.totalFiles > 0
+        ? (scanResult.summary.complexity.highComplexityFiles / scanResult.summary.totalFiles) * 100
+        : 0;
     
     const cycleTime = estimateCycleTime(scanResult.issues);
     
@@ -377,12 +385,15 @@ export function calculateEnterpriseMetrics(
         
         testCoverage: {
             overall: scanResult.summary.quality.testCoverage,
+            line: scanResult.coverage?.lineCoverage ?? scanResult.summary.quality.testCoverage,
+            branch: scanResult.coverage?.branchCoverage ?? null,
+            source: scanResult.coverage ? 'report' : 'estimate',
             unit: scanResult.summary.quality.testCoverage * 0.7,
             integration: scanResult.summary.quality.testCoverage * 0.2,
             e2e: scanResult.summary.quality.testCoverage * 0.1
         },
         codeQualityScore,
-        duplicationRate: Math.min(30, codeChurnRate * 0.5),
+        duplicationRate: Math.min(30, highComplexityShare * 0.5),
         
         maintenanceCostRatio,
         featureDeliveryVelocity: Math.max(0, 10 - Math.floor(tdr / 5)),
@@ -0,0 +1,69 @@
+/**
+ * Hotspot Analysis
+ * Ranks files by change frequency × complexity: complex code that keeps changing is where developers lose time
+ */
+
+import { ScanResult, calculateFileScore } from '../scanner.js';
+
+// Hotspots listed in the scan result
+const MAX_HOTSPOTS = 20;
+
+export interface Hotspot {
+    file: string;
+    commits: number; // change frequency within the churn window
+    linesChanged: number; // lines added + deleted within the churn window
+    cyclomatic: number;
+    cognitive: number;
+    score: number; // commits × (cyclomatic + cognitive)
+    relativeScore: number; // 0-100, relative to the top hotspot
+    issues: number;
+    debtMinutes: number;
+}
+
+/**
+ * Rank files that changed within the churn window by commits × (cyclomatic + cognitive complexity).
+ * Files without churn data or without changes are not hotspots.
+ */
+export function rankHotspots(fileMetrics: ScanResult['fileMetrics'], limit: number = MAX_HOTSPOTS): Hotspot[] {
+    const ranked = fileMetrics
+        .filter(fm => fm.churn && fm.churn.commits > 0)
+        .map(fm => ({
+            file: fm.file,
+            commits: fm.churn!.commits,
+            linesChanged: fm.churn!.linesAdded + fm.churn!.linesDeleted,
+            cyclomatic: fm.complexity.cyclomatic,
+            cognitive: fm.complexity.cognitive,
+            score: fm.churn!.commits * (fm.complexity.cyclomatic + fm.complexity.cognitive),
+            relativeScore: 0,
+            issues: fm.issues,
+            debtMinutes: fm.debtMinutes
+        }))
+        .filter(h => h.score > 0)
+        .sort((a, b) => b.score - a.score || b.linesChanged - a.linesChanged || a.file.localeCompare(b.file))
+        .slice(0, limit);
+
+    const top = ranked[0]?.score ?? 0;
+    for (const hotspot of ranked) {
+        hotspot.relativeScore = Math.round((hotspot.score / top) * 1000) / 10;
+    }
+    return ranked;
+}
+
+/**
+ * Worst files in hotspot order, keeping each file's static health score for reference
+ */
+export function worstFilesFromHotspots(
+    hotspots: Hotspot[],
+    fileMetrics: ScanResult['fileMetrics'],
+    windowDays: number
+): ScanResult['trends']['worstFiles'] {
+    const metricsByFile = new Map(fileMetrics.map(fm => [fm.file, fm]));
+    return hotspots.slice(0, 10).map(hotspot => {
+        const fm = metricsByFile.get(hotspot.file)!;
+        return {
+            file: hotspot.file,
+            score: calculateFileScore(fm.complexity, fm.issues, fm.lines),
+            reason: `Hotspot: ${hotspot.commits} commit(s) in ${windowDays} days × complexity ${hotspot.cyclomatic + hotspot.cognitive}`
+        };
+    });
+}
@@ -0,0 +1,341 @@
+#!/usr/bin/env node
+
+/**
+ * Command-Line Interface
+ * Runs the same tools as the MCP server from a terminal, CI pipeline or git hook
+ */
+
+import { parseArgs } from 'util';
+import { realpathSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { createProgressReporter } from './mcp/progress.js';
+import { DEFAULT_BASELINE_PATH } from './baseline/baseline.js';
+import { isAtLeastSeverity } from './gates/qualityGate.js';
+import { ScanResult } from './scanner.js';
+import { runScanRepo, createRepositoryBaseline } from './tools/scan.js';
+import { runDependencyAudit, formatDependencyAudit } from './tools/audit.js';
+import { listRules, formatRuleCatalog } from './tools/rules.js';
+import { getTrends, formatTrends } from './tools/trends.js';
+import { generateCtoReport } from './tools/report.js';
+import { runAICodeScan } from './tools/aiScan.js';
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // quality gate failed, --fail-on threshold reached, or vulnerable dependencies
+const EXIT_ERROR = 2; // invalid usage or the command could not run
+
+const SEVERITIES = ['blocker', 'critical', 'major', 'minor', 'info'];
+const FORMATS = ['markdown', 'json'];
+
+const USAGE = `Usage: techdebt-insight <command> [path] [options]
+
+Commands:
+  scan [path]       Analyze code quality, complexity, security and business impact
+  audit [path]      Audit dependencies for outdated packages and vulnerabilities
+  report [path]     Scan, audit and write the executive (CTO) Markdown and PDF reports
+  ai-scan [path]    Detect AI-generated code patterns
+  baseline [path]   Record the current issues in a baseline file
+  rules [path]      List the rule catalog (with the repository's plugins and settings)
+  trends [path]     Show debt, rating, issue and AI code trends from the scan history
+  mcp               Start the MCP server on stdio (the default without a command)
+
+Options:
+  -f, --format <markdown|json>  Output format (default: markdown)
+  -o, --output <file>           Write the output to a file instead of stdout
+      --report-dir <dir>        Directory for generated report files, created if missing (default: the repository)
+  -i, --include <glob>          File pattern to analyze; repeatable (default: .techdebtrc \`include\`)
+      --base <ref>              PR mode: only analyze files and lines changed since <ref> (scan)
+      --baseline <file>         Baseline file to compare against (scan) or write (baseline)
+      --no-cache                Re-analyze every file instead of reusing the scan cache
+      --workers <n>             Worker threads for analysis (default: CPU cores - 1)
+      --fail-on <severity>      Exit 1 when an issue of this severity or worse is found (scan, report)
+      --project-name <name>     Project name shown in the report (default: Project)
+      --since <date>            Only include history snapshots from this date on (trends)
+      --branch <name>           Only include history snapshots taken on this branch (trends)
+      --limit <n>               Only include the most recent n history snapshots (trends)
+  -h, --help                    Show this help
+  -v, --version                 Show the version
+
+Exit codes:
+  0  Success
+  1  Quality gate failed, --fail-on threshold reached, or (audit) critical/high vulnerabilities
+  2  Invalid usage or the command failed`;
+
+interface CliOptions {
+    format: 'markdown' | 'json';
+    output?: string;
+    reportDir?: string;
+    include?: string[];
+    base?: string;
+    baseline?: string;
+    cache: boolean;
+    workers?: number;
+    failOn?: string;
+    projectName: string;
+    since?: string;
+    branch?: string;
+    limit?: number;
+}
+
+interface CommandResult {
+    output: string;
+    exitCode: number;
+}
+
+/**
+ * Thrown for invalid arguments; reported with the usage hint and exit code 2
+ */
+function usageError(message: string): Error {
+    return Object.assign(new Error(message), { usage: true });
+}
+
+/**
+ * Validate the parsed flags shared by all commands
+ */
+export function parseOptions(values: Record<string, string | boolean | string[] | undefined>): CliOptions {
+    const format = (values.format as string | undefined) ?? 'markdown';
+    if (!FORMATS.includes(format)) {
+        throw usageError(`--format must be one of ${FORMATS.join(', ')}`);
+    }
+    const failOn = values['fail-on'] as string | undefined;
+    if (failOn !== undefined && !SEVERITIES.includes(failOn)) {
+        throw usageError(`--fail-on must be one of ${SEVERITIES.join(', ')}`);
+    }
+    let workers: number | undefined;
+    if (values.workers !== undefined) {
+        workers = Number(values.workers);
+        if (!Number.isInteger(workers) || workers < 1) {
+            throw usageError('--workers must be a positive integer');
+        }
+    }
+    let limit: number | undefined;
+    if (values.limit !== undefined) {
+        limit = Number(values.limit);
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw usageError('--limit must be a positive integer');
+        }
+    }
+
+    return {
+        format: format as CliOptions['format'],
+        output: values.output as string | undefined,
+        reportDir: values['report-dir'] !== undefined ? resolve(values['report-dir'] as string) : undefined,
+        include: values.include as string[] | undefined,
+        base: values.base as string | undefined,
+        baseline: values.baseline as string | undefined,
+        cache: values['no-cache'] !== true,
+        workers,
+        failOn,
+        projectName: (values['project-name'] as string | undefined) ?? 'Project',
+        since: values.since as string | undefined,
+        branch: values.branch as string | undefined,
+        limit
+    };
+}
+
+/**
+ * Exit code for a scan: quality gate first, then the --fail-on severity threshold
+ */
+export function scanExitCode(scanResult: ScanResult, failOn?: string): number {
+    if (scanResult.qualityGate?.status === 'failed') {
+        console.error('[TechDebt] Quality gate failed');
+        return EXIT_FAILED;
+    }
+    if (failOn) {
+        const failing = scanResult.issues.filter(issue => isAtLeastSeverity(issue.severity, failOn)).length;
+        if (failing > 0) {
+            console.error(`[TechDebt] ${failing} issue(s) at or above '${failOn}' severity`);
+            return EXIT_FAILED;
+        }
+    }
+    return EXIT_OK;
+}
+
+async function runCommand(command: string, repoPath: string, options: CliOptions): Promise<CommandResult> {
+    const progress = createProgressReporter();
+    const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+    switch (command) {
+        case 'scan': {
+            const { scanResult, executiveSummary, reportPath } = await runScanRepo({
+                repoPath,
+                includeGlobs: options.include,
+                useCache: options.cache,
+                workers: options.workers,
+                baseRef: options.base,
+                baselinePath: options.baseline,
+                reportDir: options.reportDir,
+                writeReport: options.format === 'markdown'
+            }, progress);
+            // The markdown report is part of the requested output; failing to write it fails the command
+            const reportFailed = options.format === 'markdown' && executiveSummary !== undefined && !reportPath;
+            return {
+                output: options.format === 'json' ? json(scanResult) : executiveSummary ?? 'No files found to analyze',
+                exitCode: reportFailed ? EXIT_ERROR : scanExitCode(scanResult, options.failOn)
+            };
+        }
+        case 'audit': {
+            const audit = await runDependencyAudit(repoPath);
+            return {
+                output: options.format === 'json' ? json(audit) : formatDependencyAudit(audit),
+                exitCode: audit.summary.criticalVulnerabilities > 0 ? EXIT_FAILED : EXIT_OK
+            };
+        }
+        case 'report': {
+            if (options.base !== undefined) {
+                throw usageError('--base is only supported by scan; report always analyzes the whole repository');
+            }
+            const { scanResult } = await runScanRepo({
+                repoPath,
+                includeGlobs: options.include,
+                useCache: options.cache,
+                workers: options.workers,
+                baselinePath: options.baseline,
+                reportDir: options.reportDir
+            }, progress);
+            const audit = await runDependencyAudit(repoPath);
+            const { report, executiveSummary, reportPath, pdfPath } = await generateCtoReport({
+                scan: scanResult,
+                audit,
+                repoPath,
+                projectName: options.projectName,
+                reportDir: options.reportDir
+            }, progress);
+            return {
+                output: options.format === 'json' ? json({ executiveSummary, reportPath, pdfPath }) : report,
+                exitCode: scanExitCode(scanResult, options.failOn)
+            };
+        }
+        case 'ai-scan': {
+            const result = await runAICodeScan({ repoPath, includeGlobs: options.include, reportDir: options.reportDir }, progress);
+            return {
+                output: options.format === 'json' ? json(result) : result.executiveSummary,
+                exitCode: EXIT_OK
+            };
+        }
+        case 'baseline': {
+            const result = await createRepositoryBaseline({
+                repoPath,
+                includeGlobs: options.include,
+                baselinePath: options.baseline ?? DEFAULT_BASELINE_PATH,
+                useCache: options.cache,
+                workers: options.workers
+            }, progress);
+            return {
+                output: options.format === 'json'
+                    ? json(result)
+                    : `# 📌 Baseline Created\n\n**Baseline File:** \`${result.baselinePath}\`\n**Issues Recorded:** ${result.issues}`,
+                exitCode: EXIT_OK
+            };
+        }
+        case 'rules': {
+            const rules = await listRules({ repoPath });
+            return {
+                output: options.format === 'json' ? json({ rules }) : formatRuleCatalog(rules),
+                exitCode: EXIT_OK
+            };
+        }
+        case 'trends': {
+            const trends = await getTrends({ repoPath, since: options.since, branch: options.branch, limit: options.limit });
+            return {
+                output: options.format === 'json' ? json(trends) : formatTrends(trends),
+                exitCode: EXIT_OK
+            };
+        }
+        default:
+            throw usageError(`Unknown command '${command}'`);
+    }
+}
+
+async function readVersion(): Promise<string> {
+    const pkg = JSON.parse(await readFile(new URL('../../package.json', import.meta.url), 'utf-8'));
+    return pkg.version;
+}
+
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            format: { type: 'string', short: 'f' },
+            output: { type: 'string', short: 'o' },
+            'report-dir': { type: 'string' },
+            include: { type: 'string', short: 'i', multiple: true },
+            base: { type: 'string' },
+            baseline: { type: 'string' },
+            'no-cache': { type: 'boolean' },
+            workers: { type: 'string' },
+            'fail-on': { type: 'string' },
+            'project-name': { type: 'string' },
+            since: { type: 'string' },
+            branch: { type: 'string' },
+            limit: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+            version: { type: 'boolean', short: 'v' }
+        }
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return EXIT_OK;
+    }
+    if (values.version) {
+        console.log(await readVersion());
+        return EXIT_OK;
+    }
+
+    const [command = 'mcp', path, ...extra] = positionals;
+    if (command === 'mcp') {
+        // Importing the server module starts it; it keeps the process alive on stdio
+        await import('../example.js');
+        return EXIT_OK;
+    }
+    if (extra.length > 0) {
+        throw usageError(`Unexpected argument '${extra[0]}'`);
+    }
+
+    const options = parseOptions(values);
+    const { output, exitCode } = await runCommand(command, resolve(path ?? '.'), options);
+
+    if (options.output) {
+        const outputPath = resolve(options.output);
+        await mkdir(dirname(outputPath), { recursive: true });
+        await writeFile(outputPath, output + '\n', 'utf-8');
+        console.error(`[TechDebt] Output written to: ${outputPath}`);
+    } else {
+        console.log(output);
+    }
+    return exitCode;
+}
+
+/**
+ * Run the CLI and return its exit code; errors are reported on stderr and exit with 2
+ */
+export async function runCli(argv: string[]): Promise<number> {
+    try {
+        return await main(argv);
+    } catch (error: any) {
+        console.error(`techdebt-insight: ${error?.message ?? error}`);
+        if (error?.usage || error?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+            console.error(`Run 'techdebt-insight --help' for usage.`);
+        }
+        return EXIT_ERROR;
+    }
+}
+
+// Run only when executed (directly or through the npm bin link), not when imported
+function isEntryPoint(): boolean {
+    try {
+        return process.argv[1] !== undefined && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href;
+    } catch {
+        return false;
+    }
+}
+
+if (isEntryPoint()) {
+    runCli(process.argv.slice(2)).then((code) => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,225 @@
+/**
+ * Project Configuration
+ * Loads and validates .techdebtrc.json / .techdebtrc.yaml from the repository root
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { minimatch } from 'minimatch';
+
+export const CONFIG_FILE_NAMES = ['.techdebtrc.json', '.techdebtrc.yaml', '.techdebtrc.yml', '.techdebtrc'];
+
+const SeveritySchema = z.enum(['blocker', 'critical', 'major', 'minor', 'info']);
+
+const ruleBase = {
+    enabled: z.boolean().optional(),
+    severity: SeveritySchema.optional(),
+    effort: z.number().nonnegative().optional().describe("Remediation minutes per finding, replacing the rule's effort model")
+};
+
+const positiveInt = () => z.number().int().positive().optional();
+
+// Rules without a dedicated schema (e.g. plugin rules) take free-form `options`
+const RuleSettingsSchema = z.object({
+    ...ruleBase,
+    options: z.record(z.unknown()).optional().describe('Rule-specific settings passed to the rule')
+}).strict();
+
+const RulesSchema = z.object({
+    long_method: z.object({
+        ...ruleBase,
+        maxLines: positiveInt().describe('Functions longer than this are flagged (default 50)'),
+        criticalLines: positiveInt().describe('Functions longer than this are critical (default 100)')
+    }).strict().optional(),
+    god_class: z.object({
+        ...ruleBase,
+        maxLines: positiveInt().describe('Files with more non-blank lines are flagged (default 500)'),
+        blockerLines: positiveInt().describe('Files with more non-blank lines are blockers (default 1000)')
+    }).strict().optional(),
+    magic_number: z.object({
+        ...ruleBase,
+        maxPerFile: positiveInt().describe('Maximum findings reported per file (default 10)')
+    }).strict().optional(),
+    deep_nesting: z.object({
+        ...ruleBase,
+        maxDepth: positiveInt().describe('Nesting deeper than this is flagged (default 4)'),
+        majorDepth: positiveInt().describe('Nesting deeper than this is major (default 6)')
+    }).strict().optional(),
+    commented_code: z.object({
+        ...ruleBase,
+        maxLines: positiveInt().describe('More commented-out code lines than this are flagged (default 10)')
+    }).strict().optional(),
+    code_duplication: z.object({
+        ...ruleBase,
+        blockSize: positiveInt().describe('Minimum lines in a duplicate block (default 6)'),
+        minBlockChars: positiveInt().describe('Ignore blocks shorter than this many characters (default 50)')
+    }).strict().optional()
+}).catchall(RuleSettingsSchema);
+
+const OverrideSchema = z.object({
+    files: z.array(z.string()).min(1).describe('Glob patterns, relative to the repository root, the override applies to'),
+    rules: RulesSchema
+}).strict();
+
+const gateName = z.string().optional().describe('Label shown in the gate result');
+
+const GateConditionSchema = z.discriminatedUnion('metric', [
+    z.object({
+        metric: z.literal('issues'),
+        name: gateName,
+        max: z.number().int().nonnegative().default(0).describe('Maximum number of matching issues'),
+        severity: SeveritySchema.optional().describe('Only count issues of this severity or worse'),
+        type: z.string().optional().describe('Only count issues of this rule ID'),
+        newOnly: z.boolean().default(false).describe('Only count new issues (not in the baseline; in PR mode, on changed lines)')
+    }).strict(),
+    z.object({ metric: z.literal('debt_ratio'), name: gateName, max: z.number().nonnegative().describe('Maximum debt ratio in percent') }).strict(),
+    z.object({ metric: z.literal('sqale_rating'), name: gateName, worst: z.enum(['A', 'B', 'C', 'D', 'E']).describe('Worst acceptable SQALE rating') }).strict(),
+    z.object({ metric: z.literal('maintainability_index'), name: gateName, min: z.number().describe('Minimum maintainability index') }).strict(),
+    z.object({ metric: z.literal('test_coverage'), name: gateName, min: z.number().min(0).max(100).describe('Minimum test coverage in percent') }).strict(),
+    z.object({ metric: z.literal('debt_delta_minutes'), name: gateName, max: z.number().describe('Maximum debt added by a pull request (PR mode only)') }).strict()
+]);
+
+const LimitsSchema = z.object({
+    maxFileSizeBytes: z.number().int().positive().default(2 * 1024 * 1024).describe('Larger files are skipped (default 2 MB)'),
+    timeBudgetMs: z.number().int().positive().default(10_000).describe('Per-file analysis time before remaining rules are skipped (default 10 s)')
+}).strict();
+
+const ChurnSchema = z.object({
+    enabled: z.boolean().default(true).describe('Measure code churn from git history'),
+    windowDays: z.number().int().positive().default(90).describe('Days of git history counted as churn (default 90)')
+}).strict();
+
+const CouplingSchema = z.object({
+    enabled: z.boolean().default(true).describe('Detect files that change together in git history'),
+    windowDays: z.number().int().positive().default(180).describe('Days of git history mined for co-changes (default 180)'),
+    minSharedCommits: z.number().int().positive().default(3).describe('Support: minimum commits changing both files (default 3)'),
+    minConfidence: z.number().min(0).max(1).default(0.5).describe('Minimum shared commits / commits of the less frequently changed file (default 0.5)'),
+    maxFilesPerCommit: z.number().int().positive().default(50).describe('Ignore larger commits such as mass renames or reformatting (default 50)')
+}).strict();
+
+const CoverageSchema = z.object({
+    reports: z.array(z.string()).default([]).describe('Coverage report paths or globs relative to the repository; empty finds well-known report files')
+}).strict();
+
+const CostModelSchema = z.object({
+    hourlyRate: z.number().positive().default(75).describe('Developer hourly rate in USD'),
+    minutesPerLine: z.number().positive().default(30).describe('Development minutes per line of code, used for the debt ratio')
+}).strict();
+
+export const TechDebtConfigSchema = z.object({
+    include: z.array(z.string()).optional().describe('Glob patterns to scan (overrides the tool default)'),
+    exclude: z.array(z.string()).default([]).describe('Glob patterns to skip, in addition to the built-in ignores'),
+    skipGenerated: z.boolean().default(true).describe('Skip generated, minified and binary files'),
+    blame: z.boolean().default(true).describe('Attribute each issue to the last commit, author and date of its line (git blame)'),
+    churn: ChurnSchema.default({}),
+    coupling: CouplingSchema.default({}),
+    coverage: CoverageSchema.default({}),
+    history: z.boolean().default(true).describe('Record a snapshot of every full scan under .techdebt/history for get_trends'),
+    plugins: z.array(z.string()).default([]).describe('Custom rule modules: a file or directory path (./rules) or an npm package name'),
+    rules: RulesSchema.default({}),
+    overrides: z.array(OverrideSchema).default([]).describe('Rule settings for matching paths; later entries win'),
+    costModel: CostModelSchema.default({}),
+    qualityGate: z.array(GateConditionSchema).default([]).describe('Conditions scan_repo evaluates to a pass/fail result'),
+    limits: LimitsSchema.default({})
+}).strict();
+
+export type TechDebtConfig = z.infer<typeof TechDebtConfigSchema>;
+export type RuleConfig = z.infer<typeof RulesSchema>;
+export type RuleSettings = z.infer<typeof RuleSettingsSchema>;
+export type RuleOverride = z.infer<typeof OverrideSchema>;
+export type GateCondition = z.infer<typeof GateConditionSchema>;
+export type CostModel = z.infer<typeof CostModelSchema>;
+export type ChurnSettings = z.infer<typeof ChurnSchema>;
+export type CouplingSettings = z.infer<typeof CouplingSchema>;
+export type Limits = z.infer<typeof LimitsSchema>;
+
+export interface LoadedConfig {
+    config: TechDebtConfig;
+    path: string | null; // null when no config file was found
+}
+
+/**
+ * Format zod issues as "path: message" lines
+ */
+function formatIssues(error: z.ZodError): string {
+    return error.issues
+        .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('\n');
+}
+
+/**
+ * Parse and validate configuration file content
+ */
+export function parseConfig(raw: string, fileName: string): TechDebtConfig {
+    let data: unknown;
+    try {
+        data = fileName.endsWith('.json') ? JSON.parse(raw) : parseYaml(raw);
+    } catch (error: any) {
+        throw new Error(`Failed to parse ${fileName}: ${error.message}`);
+    }
+
+    const parsed = TechDebtConfigSchema.safeParse(data ?? {});
+    if (!parsed.success) {
+        throw new Error(`Invalid configuration in ${fileName}:\n${formatIssues(parsed.error)}`);
+    }
+    return parsed.data;
+}
+
+/**
+ * Load the project configuration from the repository root.
+ * Falls back to defaults when no config file exists; throws on invalid config.
+ */
+export async function loadConfig(repoPath: string): Promise<LoadedConfig> {
+    for (const fileName of CONFIG_FILE_NAMES) {
+        const path = join(repoPath, fileName);
+        let raw: string;
+        try {
+            raw = await readFile(path, 'utf-8');
+        } catch {
+            continue;
+        }
+        return { config: parseConfig(raw, fileName), path };
+    }
+
+    return { config: TechDebtConfigSchema.parse({}), path: null };
+}
+
+/**
+ * Check whether a rule is enabled (rules are on unless explicitly disabled)
+ */
+export function isRuleEnabled(rules: RuleConfig | undefined, type: string): boolean {
+    return rules?.[type]?.enabled !== false;
+}
+
+/**
+ * Resolve the rule settings for one file: `rules` with the settings of every
+ * override whose globs match the (repository-relative) path merged on top, in order
+ */
+export function resolveRuleConfig(config: Pick<TechDebtConfig, 'rules' | 'overrides'>, filePath: string): RuleConfig {
+    const posixPath = filePath.split('\\').join('/');
+    let resolved: RuleConfig = config.rules;
+    for (const override of config.overrides) {
+        if (!override.files.some(pattern => minimatch(posixPath, pattern, { dot: true }))) continue;
+        resolved = { ...resolved };
+        for (const [type, settings] of Object.entries(override.rules)) {
+            resolved[type] = { ...resolved[type], ...settings };
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Replace finding severities and efforts with the ones configured per rule
+ */
+export function applyRuleOverrides<T extends { type: string; severity: string; effort: number }>(
+    findings: T[],
+    rules: RuleConfig | undefined
+): T[] {
+    return findings.map(finding => {
+        const settings = rules?.[finding.type];
+        if (settings?.severity === undefined && settings?.effort === undefined) return finding;
+        return { ...finding, severity: settings.severity ?? finding.severity, effort: settings.effort ?? finding.effort };
+    });
+}
@@ -0,0 +1,217 @@
+/**
+ * Test Coverage Reports
+ * Finds coverage reports in a repository, maps their files onto repository paths and merges the totals
+ */
+
+import { readFile } from 'fs/promises';
+import { dirname, isAbsolute, join, posix, relative } from 'path';
+import { glob } from 'glob';
+import { CoverageCounts, CoverageFormat, FileCoverage, detectCoverageFormat, parseCoverageReport } from './parsers.js';
+
+// Report names searched when .techdebtrc does not list `coverage.reports`
+export const COVERAGE_REPORT_GLOBS = [
+    '**/lcov.info',
+    '**/coverage-summary.json',
+    '**/cobertura-coverage.xml',
+    '**/cobertura.xml',
+    '**/coverage.xml',
+    '**/jacoco.xml',
+    '**/jacocoTestReport.xml',
+    '**/coverage.out',
+    '**/cover.out',
+    '**/coverage.txt'
+];
+
+// Build output is searched too, since that is where JaCoCo and Gradle write reports
+const COVERAGE_SEARCH_IGNORES = ['**/node_modules/**', '**/.git/**', '**/vendor/**'];
+
+// Istanbul writes the same data in several formats into one directory; only the first is read
+const ISTANBUL_FORMAT_PRIORITY: CoverageFormat[] = ['lcov', 'istanbul', 'cobertura'];
+
+export interface CoverageSummary {
+    reports: Array<{ path: string; format: CoverageFormat; files: number }>; // paths relative to the repository
+    lineCoverage: number; // percent (statements for Go profiles)
+    branchCoverage: number | null; // percent, null when no report has branch data
+    lines: CoverageCounts;
+    branches: CoverageCounts;
+    files: number; // repository files with coverage data, each counted once
+    unmatchedFiles: number; // report entries that resolve to no repository file; left out of the totals
+}
+
+export interface CoverageData {
+    summary: CoverageSummary;
+    byFile: Map<string, FileCoverage>; // repository-relative path -> coverage
+}
+
+function toPosix(path: string): string {
+    return path.split('\\').join('/');
+}
+
+function percent(counts: CoverageCounts): number {
+    return counts.total > 0 ? Math.round((counts.covered / counts.total) * 1000) / 10 : 0;
+}
+
+/**
+ * Locate coverage reports: the configured paths or globs, or the well-known report names.
+ * Configured entries that match nothing are an error.
+ */
+export async function findCoverageReports(repoPath: string, configured: string[] = []): Promise<string[]> {
+    if (configured.length === 0) {
+        return (await glob(COVERAGE_REPORT_GLOBS, { cwd: repoPath, ignore: COVERAGE_SEARCH_IGNORES, nodir: true, dot: true }))
+            .map(toPosix)
+            .sort();
+    }
+
+    const found = new Set<string>();
+    for (const pattern of configured) {
+        const matches = await glob(toPosix(pattern), { cwd: repoPath, nodir: true, dot: true });
+        if (matches.length === 0) {
+            throw new Error(`Coverage report not found: ${pattern} (from coverage.reports in .techdebtrc)`);
+        }
+        matches.forEach(m => found.add(toPosix(m)));
+    }
+    return [...found].sort();
+}
+
+/**
+ * Build a lookup that maps a report path onto a repository file: exact and absolute
+ * paths first, then the longest path-suffix match in either direction (package paths
+ * in JaCoCo, module import paths in Go profiles).
+ */
+function createPathResolver(repoPath: string, repoFiles: string[]): (path: string, baseDirs: string[]) => string | null {
+    const known = new Set(repoFiles);
+    const byBasename = new Map<string, string[]>();
+    for (const file of repoFiles) {
+        const name = posix.basename(file);
+        byBasename.set(name, [...(byBasename.get(name) ?? []), file]);
+    }
+
+    return (reportPath, baseDirs) => {
+        const path = toPosix(reportPath).replace(/^\.\//, '');
+        for (const candidate of [path, ...baseDirs.map(dir => posix.join(toPosix(dir), path))]) {
+            const rel = isAbsolute(candidate) || /^[A-Za-z]:\//.test(candidate)
+                ? toPosix(relative(repoPath, candidate))
+                : posix.normalize(candidate);
+            if (known.has(rel)) return rel;
+        }
+
+        let best: string | null = null;
+        for (const file of byBasename.get(posix.basename(path)) ?? []) {
+            if ((path.endsWith(`/${file}`) || file.endsWith(`/${path}`)) && (!best || file.length > best.length)) {
+                best = file;
+            }
+        }
+        return best;
+    };
+}
+
+/**
+ * Read, parse and merge the repository's coverage reports. Returns null when none are found
+ * or none of their entries resolves to a repository file.
+ * `repoFiles` are repository-relative source paths used to resolve report paths. Only entries
+ * that resolve to a repository file count toward the totals; a file listed by several reports
+ * (e.g. a stale copy under build/) keeps the entry with the most covered lines, since the
+ * counts cannot be merged line by line.
+ */
+export async function loadCoverage(repoPath: string, repoFiles: string[], configured: string[] = []): Promise<CoverageData | null> {
+    const reportPaths = await findCoverageReports(repoPath, configured);
+
+    const parsed: Array<{ path: string; report: ReturnType<typeof parseCoverageReport> }> = [];
+    for (const path of reportPaths) {
+        let report;
+        try {
+            const content = await readFile(join(repoPath, path), 'utf-8');
+            const format = detectCoverageFormat(content);
+            if (!format) {
+                if (configured.length > 0) throw new Error('unrecognized format');
+                continue; // e.g. an unrelated coverage.txt
+            }
+            report = parseCoverageReport(content, format);
+        } catch (error: any) {
+            if (configured.length > 0) {
+                throw new Error(`Unable to read coverage report ${path}: ${error.message}`);
+            }
+            console.error(`[TechDebt] ⚠️ Skipping coverage report ${path}: ${error.message}`);
+            continue;
+        }
+        parsed.push({ path, report });
+    }
+
+    // Istanbul emits lcov, json-summary and Cobertura side by side; keep one per directory
+    const preferred = new Map<string, number>();
+    for (const { path, report } of parsed) {
+        const rank = ISTANBUL_FORMAT_PRIORITY.indexOf(report.format);
+        if (rank >= 0) {
+            preferred.set(dirname(path), Math.min(preferred.get(dirname(path)) ?? rank, rank));
+        }
+    }
+    const reports = parsed.filter(({ path, report }) => {
+        const rank = ISTANBUL_FORMAT_PRIORITY.indexOf(report.format);
+        return rank < 0 || preferred.get(dirname(path)) === rank;
+    });
+    if (reports.length === 0) {
+        return null;
+    }
+
+    const resolvePath = createPathResolver(repoPath, repoFiles.map(toPosix));
+    const byFile = new Map<string, FileCoverage>();
+    let unmatchedFiles = 0;
+
+    for (const { path, report } of reports) {
+        const baseDirs = [...report.sources, join(repoPath, dirname(path))];
+        for (const file of report.files) {
+            const repoFile = resolvePath(file.path, baseDirs);
+            if (!repoFile) {
+                unmatchedFiles++;
+                continue;
+            }
+            const existing = byFile.get(repoFile);
+            if (!existing
+                || file.lines.covered > existing.lines.covered
+                || (file.lines.covered === existing.lines.covered && file.lines.total > existing.lines.total)) {
+                byFile.set(repoFile, { ...file, path: repoFile });
+            }
+        }
+    }
+
+    if (byFile.size === 0) {
+        console.error(`[TechDebt] ⚠️ None of the ${unmatchedFiles} files in the coverage reports matched a scanned file`);
+        return null;
+    }
+
+    const lines: CoverageCounts = { covered: 0, total: 0 };
+    const branches: CoverageCounts = { covered: 0, total: 0 };
+    for (const file of byFile.values()) {
+        lines.covered += file.lines.covered;
+        lines.total += file.lines.total;
+        branches.covered += file.branches.covered;
+        branches.total += file.branches.total;
+    }
+
+    return {
+        summary: {
+            reports: reports.map(({ path, report }) => ({ path, format: report.format, files: report.files.length })),
+            lineCoverage: percent(lines),
+            branchCoverage: branches.total > 0 ? percent(branches) : null,
+            lines,
+            branches,
+            files: byFile.size,
+            unmatchedFiles
+        },
+        byFile
+    };
+}
+
+/**
+ * Line coverage of a subset of repository files (e.g. one workspace), or null when none has coverage data
+ */
+export function coverageForFiles(coverage: CoverageData, files: string[]): number | null {
+    const counts: CoverageCounts = { covered: 0, total: 0 };
+    for (const file of files) {
+        const entry = coverage.byFile.get(toPosix(file));
+        if (!entry) continue;
+        counts.covered += entry.lines.covered;
+        counts.total += entry.lines.total;
+    }
+    return counts.total > 0 ? percent(counts) : null;
+}
@@ -0,0 +1,240 @@
+/**
+ * Coverage Report Parsers
+ * Reads line and branch coverage per file from lcov, Cobertura, coverage.py, Istanbul, JaCoCo and Go cover profiles
+ */
+
+export type CoverageFormat = 'lcov' | 'cobertura' | 'coverage.py' | 'istanbul' | 'jacoco' | 'go';
+
+export interface CoverageCounts {
+    covered: number;
+    total: number;
+}
+
+export interface FileCoverage {
+    path: string; // as written in the report (absolute, relative, package or import path)
+    lines: CoverageCounts; // statements for Go cover profiles
+    branches: CoverageCounts; // total 0 when the format has no branch data
+}
+
+export interface ParsedCoverage {
+    format: CoverageFormat;
+    sources: string[]; // source roots declared by the report (Cobertura), used to resolve paths
+    files: FileCoverage[];
+}
+
+/**
+ * Read the attributes of an XML start tag
+ */
+function xmlAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+        attributes[match[1]] = match[2]
+            .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+    }
+    return attributes;
+}
+
+function count(value: string | undefined): number {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * lcov tracefile: SF/LF/LH/BRF/BRH records, falling back to DA/BRDA lines when totals are missing.
+ * A file listed in several records (e.g. several test runs) keeps its best record.
+ */
+export function parseLcov(content: string): ParsedCoverage {
+    const byPath = new Map<string, FileCoverage>();
+    let record: { path: string; lf?: number; lh?: number; brf?: number; brh?: number; da: number; daHit: number; brda: number; brdaHit: number } | null = null;
+
+    for (const raw of content.split('\n')) {
+        const line = raw.trim();
+        const colon = line.indexOf(':');
+        const key = colon >= 0 ? line.substring(0, colon) : line;
+        const value = colon >= 0 ? line.substring(colon + 1) : '';
+
+        if (key === 'SF') {
+            record = { path: value, da: 0, daHit: 0, brda: 0, brdaHit: 0 };
+        } else if (!record) {
+            continue;
+        } else if (key === 'LF') {
+            record.lf = count(value);
+        } else if (key === 'LH') {
+            record.lh = count(value);
+        } else if (key === 'BRF') {
+            record.brf = count(value);
+        } else if (key === 'BRH') {
+            record.brh = count(value);
+        } else if (key === 'DA') {
+            record.da++;
+            if (count(value.split(',')[1]) > 0) record.daHit++;
+        } else if (key === 'BRDA') {
+            const taken = value.split(',')[3];
+            record.brda++;
+            if (taken !== '-' && count(taken) > 0) record.brdaHit++;
+        } else if (key === 'end_of_record') {
+            const file: FileCoverage = {
+                path: record.path,
+                lines: { covered: record.lh ?? record.daHit, total: record.lf ?? record.da },
+                branches: { covered: record.brh ?? record.brdaHit, total: record.brf ?? record.brda }
+            };
+            const existing = byPath.get(file.path);
+            if (!existing || file.lines.covered > existing.lines.covered) byPath.set(file.path, file);
+            record = null;
+        }
+    }
+
+    return { format: 'lcov', sources: [], files: [...byPath.values()] };
+}
+
+/**
+ * Cobertura XML (also written by coverage.py, Istanbul and many CI tools).
+ * Lines are collected per file and de-duplicated, since method elements repeat their class's lines.
+ */
+export function parseCobertura(content: string, format: 'cobertura' | 'coverage.py' = 'cobertura'): ParsedCoverage {
+    const sources = [...content.matchAll(/<source>([^<]*)<\/source>/g)].map(m => m[1].trim()).filter(Boolean);
+    const byPath = new Map<string, Map<number, { hits: number; branchCovered: number; branchTotal: number }>>();
+
+    for (const match of content.matchAll(/<class\b([^>]*?)(?:\/>|>([\s\S]*?)<\/class>)/g)) {
+        const filename = xmlAttributes(match[1]).filename;
+        if (!filename) continue;
+        const lines = byPath.get(filename) ?? new Map();
+        byPath.set(filename, lines);
+
+        for (const lineMatch of (match[2] ?? '').matchAll(/<line\b([^>]*?)\/?>/g)) {
+            const attributes = xmlAttributes(lineMatch[1]);
+            const number = count(attributes.number);
+            const conditions = attributes.branch === 'true'
+                ? (attributes['condition-coverage'] ?? '').match(/\((\d+)\/(\d+)\)/)
+                : null;
+            const previous = lines.get(number);
+            lines.set(number, {
+                hits: Math.max(previous?.hits ?? 0, count(attributes.hits)),
+                branchCovered: Math.max(previous?.branchCovered ?? 0, conditions ? count(conditions[1]) : 0),
+                branchTotal: Math.max(previous?.branchTotal ?? 0, conditions ? count(conditions[2]) : 0)
+            });
+        }
+    }
+
+    const files = [...byPath.entries()].map(([path, lines]): FileCoverage => {
+        const entries = [...lines.values()];
+        return {
+            path,
+            lines: { covered: entries.filter(l => l.hits > 0).length, total: entries.length },
+            branches: {
+                covered: entries.reduce((sum, l) => sum + l.branchCovered, 0),
+                total: entries.reduce((sum, l) => sum + l.branchTotal, 0)
+            }
+        };
+    });
+    return { format, sources, files };
+}
+
+/**
+ * Istanbul/nyc coverage-summary.json (json-summary reporter): one entry per file plus `total`
+ */
+export function parseIstanbulSummary(content: string): ParsedCoverage {
+    const data = JSON.parse(content) as Record<string, { lines?: { covered: number; total: number }; branches?: { covered: number; total: number } }>;
+    const files = Object.entries(data)
+        .filter(([path]) => path !== 'total')
+        .map(([path, entry]): FileCoverage => ({
+            path,
+            lines: { covered: count(String(entry.lines?.covered)), total: count(String(entry.lines?.total)) },
+            branches: { covered: count(String(entry.branches?.covered)), total: count(String(entry.branches?.total)) }
+        }));
+    return { format: 'istanbul', sources: [], files };
+}
+
+/**
+ * JaCoCo XML: LINE and BRANCH counters of every sourcefile, keyed by package path and file name
+ */
+export function parseJacoco(content: string): ParsedCoverage {
+    const files: FileCoverage[] = [];
+
+    for (const pkg of content.matchAll(/<package\b([^>]*)>([\s\S]*?)<\/package>/g)) {
+        const packageName = xmlAttributes(pkg[1]).name ?? '';
+        for (const sourcefile of pkg[2].matchAll(/<sourcefile\b([^>]*)>([\s\S]*?)<\/sourcefile>/g)) {
+            const name = xmlAttributes(sourcefile[1]).name;
+            if (!name) continue;
+            const counters: Record<string, CoverageCounts> = {};
+            for (const counter of sourcefile[2].matchAll(/<counter\b([^>]*?)\/?>/g)) {
+                const attributes = xmlAttributes(counter[1]);
+                const covered = count(attributes.covered);
+                counters[attributes.type] = { covered, total: covered + count(attributes.missed) };
+            }
+            files.push({
+                path: packageName ? `${packageName}/${name}` : name,
+                lines: counters.LINE ?? { covered: 0, total: 0 },
+                branches: counters.BRANCH ?? { covered: 0, total: 0 }
+            });
+        }
+    }
+
+    return { format: 'jacoco', sources: [], files };
+}
+
+/**
+ * Go cover profile (`go test -coverprofile`): statement blocks per file. Blocks listed
+ * more than once (several packages or test binaries) count as covered if any run hit them.
+ */
+export function parseGoCoverProfile(content: string): ParsedCoverage {
+    const blocks = new Map<string, { file: string; statements: number; hit: boolean }>();
+
+    for (const line of content.split('\n')) {
+        const match = line.trim().match(/^(.+):(\d+\.\d+,\d+\.\d+) (\d+) (\d+)$/);
+        if (!match) continue;
+        const key = `${match[1]}:${match[2]}`;
+        const previous = blocks.get(key);
+        blocks.set(key, {
+            file: match[1],
+            statements: count(match[3]),
+            hit: (previous?.hit ?? false) || count(match[4]) > 0
+        });
+    }
+
+    const byPath = new Map<string, CoverageCounts>();
+    for (const block of blocks.values()) {
+        const counts = byPath.get(block.file) ?? { covered: 0, total: 0 };
+        counts.total += block.statements;
+        if (block.hit) counts.covered += block.statements;
+        byPath.set(block.file, counts);
+    }
+
+    return {
+        format: 'go',
+        sources: [],
+        files: [...byPath.entries()].map(([path, lines]) => ({ path, lines, branches: { covered: 0, total: 0 } }))
+    };
+}
+
+/**
+ * Recognize a report's format from its content, or null if it is not a coverage report
+ */
+export function detectCoverageFormat(content: string): CoverageFormat | null {
+    const head = content.trimStart().substring(0, 2000);
+    if (/^mode: (set|count|atomic)\b/.test(head)) return 'go';
+    if (/^(TN|SF):/m.test(head) && content.includes('end_of_record')) return 'lcov';
+    if (head.startsWith('{') && /"total"\s*:/.test(content)) return 'istanbul';
+    if (/<report\b/.test(head) && /jacoco|<sessioninfo\b|<package\b/i.test(content)) return 'jacoco';
+    if (/<coverage\b/.test(head)) return /coverage\.py|coverage\.readthedocs/i.test(head) ? 'coverage.py' : 'cobertura';
+    return null;
+}
+
+/**
+ * Parse a report in the given format
+ */
+export function parseCoverageReport(content: string, format: CoverageFormat): ParsedCoverage {
+    switch (format) {
+        case 'lcov':
+            return parseLcov(content);
+        case 'cobertura':
+        case 'coverage.py':
+            return parseCobertura(content, format);
+        case 'istanbul':
+            return parseIstanbulSummary(content);
+        case 'jacoco':
+            return parseJacoco(content);
+        case 'go':
+            return parseGoCoverProfile(content);
+    }
+}
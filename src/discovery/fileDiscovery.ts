@@ -0,0 +1,151 @@
+/**
+ * File Discovery
+ * Shared file listing for all tools, honoring .gitignore, .git/info/exclude and .techdebtignore
+ */
+
+import { readFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { glob } from 'glob';
+import ignore, { Ignore } from 'ignore';
+
+// Always skipped, whether or not the repository ignores them
+export const BUILTIN_IGNORES = [
+    '**/node_modules/**',
+    '**/dist/**',
+    '**/.git/**',
+    '**/build/**',
+    '**/.next/**',
+    '**/vendor/**'
+];
+
+// Per-directory ignore files, applied like nested .gitignore files
+export const IGNORE_FILE_NAMES = ['.gitignore', '.techdebtignore'];
+
+export interface DiscoveryOptions {
+    exclude?: string[]; // extra glob patterns to skip (e.g. `exclude` from .techdebtrc)
+}
+
+interface IgnoreScope {
+    dir: string; // directory relative to the repository root, '' for the root
+    matcher: Ignore;
+}
+
+function toPosix(path: string): string {
+    return path.split(sep).join('/');
+}
+
+async function readIgnoreFile(path: string): Promise<string | null> {
+    try {
+        return await readFile(path, 'utf-8');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Load every ignore file in the repository, ordered from the root down
+ */
+async function loadIgnoreScopes(repoPath: string, exclude: string[]): Promise<IgnoreScope[]> {
+    const ignoreFiles = await glob(IGNORE_FILE_NAMES.map(name => `**/${name}`), {
+        cwd: repoPath,
+        dot: true,
+        ignore: [...BUILTIN_IGNORES, ...exclude]
+    });
+
+    const scopes = new Map<string, Ignore>();
+    const scopeFor = (dir: string) => {
+        let matcher = scopes.get(dir);
+        if (!matcher) {
+            matcher = ignore();
+            scopes.set(dir, matcher);
+        }
+        return matcher;
+    };
+
+    // Repository-local excludes behave like a root .gitignore
+    const infoExclude = await readIgnoreFile(join(repoPath, '.git', 'info', 'exclude'));
+    if (infoExclude) {
+        scopeFor('').add(infoExclude);
+    }
+
+    for (const file of ignoreFiles.sort()) {
+        const content = await readIgnoreFile(join(repoPath, file));
+        if (content) {
+            const dir = toPosix(dirname(file));
+            scopeFor(dir === '.' ? '' : dir).add(content);
+        }
+    }
+
+    return [...scopes.entries()]
+        .map(([dir, matcher]) => ({ dir, matcher }))
+        .sort((a, b) => a.dir.split('/').length - b.dir.split('/').length || a.dir.localeCompare(b.dir));
+}
+
+/**
+ * Apply the ignore scopes that contain a path, ordered from the root down. Deeper
+ * ignore files are consulted last, so their negations (`!pattern`) can re-include files.
+ */
+function matchScopes(scopes: IgnoreScope[], path: string): boolean {
+    let ignored = false;
+    for (const { dir, matcher } of scopes) {
+        const result = matcher.test(dir ? path.substring(dir.length + 1) : path);
+        if (result.ignored) ignored = true;
+        else if (result.unignored) ignored = false;
+    }
+    return ignored;
+}
+
+/**
+ * Build a check for repository-relative files. As in git, a file inside an ignored
+ * directory cannot be re-included. Each directory's decision and applicable scopes
+ * are computed once and shared by every file below it.
+ */
+function createIgnoreFilter(scopes: IgnoreScope[]): (file: string) => boolean {
+    const directories = new Map<string, { ignored: boolean; scopes: IgnoreScope[] }>();
+    const directory = (dir: string): { ignored: boolean; scopes: IgnoreScope[] } => {
+        let entry = directories.get(dir);
+        if (!entry) {
+            if (!dir) {
+                entry = { ignored: false, scopes: scopes.filter(scope => !scope.dir) };
+            } else {
+                const slash = dir.lastIndexOf('/');
+                const parent = directory(slash === -1 ? '' : dir.substring(0, slash));
+                // A directory's own ignore files apply to its contents, not to the directory itself
+                entry = {
+                    ignored: parent.ignored || matchScopes(parent.scopes, `${dir}/`),
+                    scopes: [...parent.scopes, ...scopes.filter(scope => scope.dir === dir)]
+                };
+            }
+            directories.set(dir, entry);
+        }
+        return entry;
+    };
+
+    return (file) => {
+        const slash = file.lastIndexOf('/');
+        const parent = directory(slash === -1 ? '' : file.substring(0, slash));
+        return parent.ignored || matchScopes(parent.scopes, file);
+    };
+}
+
+/**
+ * Find files matching the patterns, minus built-in ignores, configured excludes
+ * and anything the repository's ignore files exclude. Returns sorted absolute paths.
+ */
+export async function discoverFiles(
+    repoPath: string,
+    patterns: string[],
+    options: DiscoveryOptions = {}
+): Promise<string[]> {
+    const exclude = options.exclude ?? [];
+    const [matches, scopes] = await Promise.all([
+        glob(patterns, { cwd: repoPath, nodir: true, ignore: [...BUILTIN_IGNORES, ...exclude] }),
+        loadIgnoreScopes(repoPath, exclude)
+    ]);
+
+    const isIgnored = createIgnoreFilter(scopes);
+    return [...new Set(matches.map(toPosix))]
+        .filter(file => !isIgnored(file))
+        .sort()
+        .map(file => resolve(repoPath, file));
+}
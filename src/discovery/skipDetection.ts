@@ -0,0 +1,95 @@
+/**
+ * Skip Detection
+ * Recognizes binary, minified and generated files that should not be analyzed as source
+ */
+
+export type SkipReason = 'binary' | 'minified' | 'generated' | 'too_large' | 'timeout';
+
+export interface SkippedFile {
+    file: string;
+    reason: SkipReason;
+    detail: string;
+}
+
+// Bytes inspected for NUL characters (the same heuristic git uses)
+const BINARY_SNIFF_BYTES = 8000;
+
+// Header lines searched for generator markers
+const HEADER_LINES = 10;
+
+// Average non-blank line length above which a file is treated as minified
+const MAX_AVERAGE_LINE_LENGTH = 250;
+
+const GENERATED_FILE_NAMES: Array<[RegExp, string]> = [
+    [/\.min\.(js|mjs|cjs|css)$/, 'minified bundle file name'],
+    [/\.pb(\.gw)?\.go$|_pb2(_grpc)?\.pyi?$|\.pb\.(cc|h)$|_pb\.(js|d\.ts)$/, 'protobuf output file name'],
+    [/\.generated\.\w+$|\.g\.(dart|cs)$|\.designer\.cs$/i, 'generated file name'],
+    [/(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|go\.sum|poetry\.lock)$/, 'lockfile']
+];
+
+// Generator markers, only honored inside comments near the top of a file
+const GENERATED_MARKERS: Array<[RegExp, string]> = [
+    [/@generated\b/, '@generated header'],
+    [/\bDO NOT EDIT\b/i, 'DO NOT EDIT header'],
+    [/\b(auto-?generated|this file (is|was) (automatically )?generated)\b/i, 'generator header'],
+    [/<auto-generated/i, 'auto-generated header']
+];
+
+const COMMENT_OPENER = /^\s*(\/\/|\/\*|\*|#|--|<!--|;|%)/;
+
+/**
+ * Check raw file bytes for NUL characters
+ */
+export function isBinaryContent(bytes: Uint8Array): boolean {
+    const length = Math.min(bytes.length, BINARY_SNIFF_BYTES);
+    for (let i = 0; i < length; i++) {
+        if (bytes[i] === 0) return true;
+    }
+    return false;
+}
+
+/**
+ * Decide whether a text file is generated or minified. Returns null for regular source.
+ */
+export function detectGeneratedFile(file: string, content: string): Omit<SkippedFile, 'file'> | null {
+    const posixFile = file.split('\\').join('/');
+    for (const [pattern, detail] of GENERATED_FILE_NAMES) {
+        if (pattern.test(posixFile)) {
+            return { reason: detail.startsWith('minified') ? 'minified' : 'generated', detail };
+        }
+    }
+
+    const lines = content.split('\n');
+    for (const line of lines.slice(0, HEADER_LINES)) {
+        if (!COMMENT_OPENER.test(line)) continue;
+        for (const [pattern, detail] of GENERATED_MARKERS) {
+            if (pattern.test(line)) return { reason: 'generated', detail };
+        }
+    }
+
+    const codeLines = lines.filter(l => l.trim().length > 0);
+    if (codeLines.length > 0) {
+        const averageLength = codeLines.reduce((sum, l) => sum + l.length, 0) / codeLines.length;
+        if (averageLength > MAX_AVERAGE_LINE_LENGTH) {
+            return { reason: 'minified', detail: `average line length ${Math.round(averageLength)} characters` };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Classify a file from its raw bytes. Returns the decoded text when the file should be scanned.
+ */
+export function classifyFile(
+    file: string,
+    bytes: Uint8Array
+): { skip: Omit<SkippedFile, 'file'>; content?: undefined } | { skip?: undefined; content: string } {
+    if (isBinaryContent(bytes)) {
+        return { skip: { reason: 'binary', detail: 'contains NUL bytes' } };
+    }
+
+    const content = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('utf-8');
+    const skip = detectGeneratedFile(file, content);
+    return skip ? { skip } : { content };
+}
@@ -0,0 +1,134 @@
+/**
+ * Issue Fingerprinting
+ * Content-aware issue identity that survives unrelated edits elsewhere in a file
+ */
+
+import { createHash } from 'crypto';
+
+// Non-blank lines of context taken on each side of the offending line
+const CONTEXT_LINES = 1;
+
+const FUNCTION_PATTERNS = [
+    /\bfunction\s*\*?\s*(\w+)/,                                   // JS/TS function declarations
+    /\b(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s*)?(?:\([^)]*\)|\w+)\s*=>/, // arrow functions
+    /^\s*def\s+(\w+)/,                                            // Python
+    /\bfn\s+(\w+)/,                                               // Rust
+    /\bfunc\s+(?:\([^)]*\)\s*)?(\w+)/,                            // Go
+    /^\s*(?:(?:public|private|protected|static|async)\s+)*(\w+)\s*\([^;{]*\)[^;{]*\{\s*$/ // methods
+];
+
+const NON_FUNCTION_NAMES = new Set(['if', 'for', 'while', 'switch', 'catch', 'with', 'return']);
+
+/**
+ * Normalize a source line so whitespace-only edits do not change fingerprints
+ */
+function normalizeLine(line: string): string {
+    return line.trim().replace(/\s+/g, ' ');
+}
+
+export interface FunctionStart {
+    index: number; // 0-based line of the declaration
+    name: string;
+}
+
+/**
+ * Find every function declaration in a file, in line order. Computed once per file so
+ * looking up the enclosing function of each finding does not rescan the file.
+ */
+export function findFunctionStarts(lines: string[]): FunctionStart[] {
+    const starts: FunctionStart[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        for (const pattern of FUNCTION_PATTERNS) {
+            const name = lines[i].match(pattern)?.[1];
+            if (name && !NON_FUNCTION_NAMES.has(name)) {
+                starts.push({ index: i, name });
+                break;
+            }
+        }
+    }
+    return starts;
+}
+
+/**
+ * Find the name of the function enclosing a line (nearest declaration at or above it)
+ */
+export function findEnclosingFunction(starts: FunctionStart[], index: number): string {
+    let low = 0;
+    let high = starts.length - 1;
+    let found = '';
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (starts[mid].index <= index) {
+            found = starts[mid].name;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return found;
+}
+
+/**
+ * Collect normalized non-blank lines around an index
+ */
+function collectContext(lines: string[], index: number, direction: -1 | 1): string[] {
+    const context: string[] = [];
+    for (let i = index + direction; i >= 0 && i < lines.length && context.length < CONTEXT_LINES; i += direction) {
+        const normalized = normalizeLine(lines[i]);
+        if (normalized) context.push(normalized);
+    }
+    return context;
+}
+
+/**
+ * Fingerprint the code at a 1-based line: the normalized line, its surrounding
+ * context and the enclosing function name. Line numbers themselves are not hashed.
+ */
+export function computeLineFingerprint(
+    lines: string[],
+    line: number,
+    functionStarts: FunctionStart[] = findFunctionStarts(lines)
+): string {
+    const index = line - 1;
+    if (index < 0 || index >= lines.length) {
+        return '';
+    }
+
+    return createHash('sha256')
+        .update(findEnclosingFunction(functionStarts, index))
+        .update('\n')
+        .update(collectContext(lines, index, -1).join('\n'))
+        .update('\n>')
+        .update(normalizeLine(lines[index]))
+        .update('\n')
+        .update(collectContext(lines, index, 1).join('\n'))
+        .digest('hex')
+        .substring(0, 16);
+}
+
+/**
+ * Attach fingerprints to line-level findings. Identical findings in the same
+ * context get an occurrence suffix so each one keeps a distinct identity.
+ * Pass `functionStarts` when fingerprinting several finding lists of one file.
+ */
+export function fingerprintFindings<T extends { type: string; line?: number; fingerprint?: string }>(
+    findings: T[],
+    lines: string[],
+    functionStarts?: FunctionStart[]
+): T[] {
+    const seen = new Map<string, number>();
+    if (findings.some(f => f.line !== undefined)) {
+        functionStarts ??= findFunctionStarts(lines);
+    }
+
+    return findings.map(finding => {
+        if (finding.line === undefined) return finding;
+
+        const base = `${finding.type}:${computeLineFingerprint(lines, finding.line, functionStarts)}`;
+        const occurrence = seen.get(base) ?? 0;
+        seen.set(base, occurrence + 1);
+
+        const fingerprint = occurrence > 0 ? `${base}#${occurrence}` : base;
+        return { ...finding, fingerprint };
+    });
+}
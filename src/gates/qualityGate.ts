@@ -0,0 +1,115 @@
+/**
+ * Quality Gate
+ * Evaluates configured go/no-go conditions against a scan result
+ */
+
+import { GateCondition } from '../config/config.js';
+import { ScanResult } from '../scanner.js';
+
+export type GateStatus = 'passed' | 'failed';
+
+export interface GateConditionResult {
+    name: string;
+    metric: GateCondition['metric'];
+    status: GateStatus | 'skipped'; // skipped when the metric does not apply (e.g. debt delta outside PR mode)
+    actual: number | string | null;
+    threshold: number | string;
+}
+
+export interface QualityGateResult {
+    status: GateStatus; // failed when any condition failed
+    conditions: GateConditionResult[];
+}
+
+const SEVERITY_RANK: Record<string, number> = { blocker: 5, critical: 4, major: 3, minor: 2, info: 1 };
+const RATINGS = ['A', 'B', 'C', 'D', 'E'];
+
+/**
+ * Check whether a severity is at least as severe as the threshold
+ */
+export function isAtLeastSeverity(severity: string, threshold: string): boolean {
+    return (SEVERITY_RANK[severity] ?? 0) >= (SEVERITY_RANK[threshold] ?? 0);
+}
+
+/**
+ * Default label for a condition without a configured name
+ */
+function describeCondition(condition: GateCondition): string {
+    switch (condition.metric) {
+        case 'issues': {
+            const scope = [
+                condition.newOnly ? 'new' : '',
+                condition.severity ? `${condition.severity}+` : '',
+                condition.type ?? ''
+            ].filter(Boolean).join(' ');
+            return `${scope ? `${scope} ` : ''}issues <= ${condition.max}`.replace(/^./, c => c.toUpperCase());
+        }
+        case 'debt_ratio':
+            return `Debt ratio <= ${condition.max}%`;
+        case 'sqale_rating':
+            return `SQALE rating ${condition.worst} or better`;
+        case 'maintainability_index':
+            return `Maintainability index >= ${condition.min}`;
+        case 'test_coverage':
+            return `Test coverage >= ${condition.min}%`;
+        case 'debt_delta_minutes':
+            return `PR debt delta <= ${condition.max} minutes`;
+    }
+}
+
+/**
+ * Count issues matching an `issues` condition. Without a baseline every reported
+ * issue counts as new (in PR mode, issues are already limited to changed lines).
+ */
+function countIssues(scan: ScanResult, condition: Extract<GateCondition, { metric: 'issues' }>): number {
+    return scan.issues.filter(issue =>
+        (!condition.newOnly || !scan.baseline || issue.baselineStatus === 'new') &&
+        (!condition.type || issue.type === condition.type) &&
+        (!condition.severity || isAtLeastSeverity(issue.severity, condition.severity))
+    ).length;
+}
+
+function evaluateCondition(condition: GateCondition, scan: ScanResult): Omit<GateConditionResult, 'name' | 'metric'> {
+    const { summary } = scan;
+    const atMost = (actual: number, max: number) => ({ status: actual <= max ? 'passed' as const : 'failed' as const, actual, threshold: max });
+    const atLeast = (actual: number, min: number) => ({ status: actual >= min ? 'passed' as const : 'failed' as const, actual, threshold: min });
+
+    switch (condition.metric) {
+        case 'issues':
+            return atMost(countIssues(scan, condition), condition.max);
+        case 'debt_ratio':
+            return atMost(Math.round(summary.technicalDebt.debtRatio * 100) / 100, condition.max);
+        case 'sqale_rating': {
+            const rating = summary.technicalDebt.sqaleRating;
+            return {
+                status: RATINGS.indexOf(rating) <= RATINGS.indexOf(condition.worst) ? 'passed' : 'failed',
+                actual: rating,
+                threshold: condition.worst
+            };
+        }
+        case 'maintainability_index':
+            return atLeast(summary.technicalDebt.maintainabilityIndex, condition.min);
+        case 'test_coverage':
+            return atLeast(summary.quality.testCoverage, condition.min);
+        case 'debt_delta_minutes':
+            return scan.pullRequest
+                ? atMost(scan.pullRequest.debtDeltaMinutes, condition.max)
+                : { status: 'skipped', actual: null, threshold: condition.max };
+    }
+}
+
+/**
+ * Evaluate every condition. The gate passes when none of them failed.
+ */
+export function evaluateQualityGate(conditions: GateCondition[], scan: ScanResult): QualityGateResult {
+    const results = conditions.map(condition => ({
+        name: condition.name ?? describeCondition(condition),
+        metric: condition.metric,
+        ...evaluateCondition(condition, scan)
+    }));
+
+    return {
+        status: results.some(result => result.status === 'failed') ? 'failed' : 'passed',
+        conditions: results
+    };
+}
@@ -0,0 +1,149 @@
+/**
+ * Git Blame Attribution
+ * Attributes issue lines to the commit that last modified them and summarizes how old the debt is
+ */
+
+import { git } from './exec.js';
+import { mapWithConcurrency } from '../workers/scanPool.js';
+
+// Concurrent `git blame` processes
+const BLAME_CONCURRENCY = 4;
+
+// git reports lines that are not committed yet with an all-zero SHA
+const UNCOMMITTED_SHA = /^0{40}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bounds (in days, exclusive) of the issue age buckets
+const AGE_BUCKETS: Array<[string, number]> = [
+    ['< 30 days', 30],
+    ['30-90 days', 90],
+    ['90 days - 1 year', 365],
+    ['1-3 years', 3 * 365],
+    ['3+ years', Infinity]
+];
+
+export interface BlameInfo {
+    commit: string | null; // null for uncommitted changes
+    author: string;
+    authorEmail: string;
+    date: string; // ISO 8601 author date
+}
+
+export interface IssueAgeDistribution {
+    buckets: Array<{ label: string; issues: number; debtMinutes: number }>;
+    unknown: number; // issues without a line, or in files git does not track
+    medianDays: number | null;
+    oldestDays: number | null;
+}
+
+interface BlameableIssue {
+    file: string;
+    line?: number;
+    effort: number;
+    blame?: BlameInfo;
+}
+
+/**
+ * Parse `git blame --porcelain` output into blame info per final line number
+ */
+export function parseBlamePorcelain(output: string): Map<number, BlameInfo> {
+    const commits = new Map<string, BlameInfo>();
+    const lines = new Map<number, BlameInfo>();
+    let current: BlameInfo | null = null;
+    let finalLine = 0;
+
+    for (const line of output.split('\n')) {
+        const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+        if (header) {
+            const sha = header[1];
+            finalLine = parseInt(header[2], 10);
+            current = commits.get(sha) ?? null;
+            if (!current) {
+                current = { commit: UNCOMMITTED_SHA.test(sha) ? null : sha, author: '', authorEmail: '', date: '' };
+                commits.set(sha, current);
+            }
+        } else if (line.startsWith('\t')) {
+            if (current) lines.set(finalLine, current);
+        } else if (current) {
+            if (line.startsWith('author ')) {
+                current.author = line.substring(7);
+            } else if (line.startsWith('author-mail ')) {
+                current.authorEmail = line.substring(12).replace(/^<|>$/g, '');
+            } else if (line.startsWith('author-time ')) {
+                current.date = new Date(parseInt(line.substring(12), 10) * 1000).toISOString();
+            }
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Blame the working-tree version of a file, or null when git cannot (untracked file)
+ */
+export async function blameFile(repoPath: string, file: string): Promise<Map<number, BlameInfo> | null> {
+    try {
+        return parseBlamePorcelain(await git(repoPath, ['blame', '--porcelain', '--', file.split('\\').join('/')]));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Set `blame` on every issue with a line, blaming each affected file once.
+ * Returns the number of issues attributed.
+ */
+export async function blameIssues(repoPath: string, issues: BlameableIssue[]): Promise<number> {
+    const byFile = new Map<string, BlameableIssue[]>();
+    for (const issue of issues) {
+        if (issue.line === undefined) continue;
+        const list = byFile.get(issue.file) ?? [];
+        list.push(issue);
+        byFile.set(issue.file, list);
+    }
+
+    const counts = await mapWithConcurrency([...byFile.keys()], BLAME_CONCURRENCY, async (file) => {
+        const blame = await blameFile(repoPath, file);
+        if (!blame) return 0;
+        let attributed = 0;
+        for (const issue of byFile.get(file)!) {
+            const info = blame.get(issue.line!);
+            if (info) {
+                issue.blame = info;
+                attributed++;
+            }
+        }
+        return attributed;
+    });
+    return counts.reduce((sum, n) => sum + n, 0);
+}
+
+/**
+ * Bucket issues by the age of their blamed line
+ */
+export function summarizeIssueAge(issues: BlameableIssue[], now: Date = new Date()): IssueAgeDistribution {
+    const buckets = AGE_BUCKETS.map(([label]) => ({ label, issues: 0, debtMinutes: 0 }));
+    const ages: number[] = [];
+    let unknown = 0;
+
+    for (const issue of issues) {
+        if (!issue.blame?.date) {
+            unknown++;
+            continue;
+        }
+        const days = Math.max(0, (now.getTime() - Date.parse(issue.blame.date)) / DAY_MS);
+        const bucket = buckets[AGE_BUCKETS.findIndex(([, maxDays]) => days < maxDays)];
+        bucket.issues++;
+        bucket.debtMinutes += issue.effort;
+        ages.push(days);
+    }
+
+    ages.sort((a, b) => a - b);
+    return {
+        buckets,
+        unknown,
+        medianDays: ages.length > 0 ? Math.round(ages[Math.floor(ages.length / 2)]) : null,
+        oldestDays: ages.length > 0 ? Math.round(ages[ages.length - 1]) : null
+    };
+}
@@ -0,0 +1,150 @@
+/**
+ * Code Churn
+ * Measures lines added and deleted per file over a time window from `git log --numstat`
+ */
+
+import { git } from './exec.js';
+
+// Marks the start of each commit in the log output
+const COMMIT_MARKER = '\x00';
+
+// One file in `--numstat` output: lines added, lines deleted (`-` for binary files) and path
+export const NUMSTAT_LINE = /^(\d+|-)\t(\d+|-)\t(.+)$/;
+
+export interface FileChurn {
+    commits: number;
+    linesAdded: number;
+    linesDeleted: number;
+}
+
+export interface ChurnSummary {
+    windowDays: number;
+    since: string; // ISO date the window starts at
+    commits: number; // non-merge commits touching the scanned files
+    filesChanged: number;
+    linesAdded: number;
+    linesDeleted: number;
+    churnRate: number; // lines added + deleted per 100 current lines (can exceed 100 when code is rewritten)
+}
+
+export interface ChurnLog {
+    since: string;
+    files: Map<string, FileChurn & { commitIds: Set<string> }>; // paths relative to repoPath, as of HEAD
+}
+
+/**
+ * Resolve the destination of a numstat rename path: `a => b` or `dir/{old => new}/file`
+ */
+export function resolveRenamedPath(path: string): string {
+    const braced = path.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+    if (braced) {
+        return `${braced[1]}${braced[3]}${braced[4]}`.replace(/\/\//g, '/');
+    }
+    const arrow = path.indexOf(' => ');
+    return arrow >= 0 ? path.substring(arrow + 4) : path;
+}
+
+/**
+ * Track renames across a `git log --numstat` listing and map each numstat path to the
+ * file's newest path. git log lists newest commits first, so a rename is seen before
+ * the file's older history; paths must be passed in output order.
+ */
+export function createRenameTracker(): (rawPath: string) => string {
+    const renamedTo = new Map<string, string>();
+    return (rawPath) => {
+        const newPath = resolveRenamedPath(rawPath);
+        const path = renamedTo.get(newPath) ?? newPath;
+        if (newPath !== rawPath) {
+            const oldPath = rawPath.includes('{')
+                ? rawPath.replace(/\{(.*) => (.*)\}/, '$1').replace(/\/\//g, '/')
+                : rawPath.substring(0, rawPath.indexOf(' => '));
+            renamedTo.set(oldPath, path);
+        }
+        return path;
+    };
+}
+
+/**
+ * Parse `git log --numstat --format=%x00%H` output into per-file churn.
+ * Binary files (`-` counts) count commits but no lines; renamed files are
+ * credited to their newest path, so history follows a file across renames.
+ */
+export function parseNumstatLog(output: string): ChurnLog['files'] {
+    const files: ChurnLog['files'] = new Map();
+    const currentPath = createRenameTracker();
+    let commit = '';
+
+    for (const line of output.split('\n')) {
+        if (line.startsWith(COMMIT_MARKER)) {
+            commit = line.substring(1).trim();
+            continue;
+        }
+        const stat = line.match(NUMSTAT_LINE);
+        if (!stat) continue;
+
+        const path = currentPath(stat[3]);
+        const entry = files.get(path) ?? { commits: 0, linesAdded: 0, linesDeleted: 0, commitIds: new Set<string>() };
+        if (!entry.commitIds.has(commit)) {
+            entry.commitIds.add(commit);
+            entry.commits++;
+        }
+        entry.linesAdded += stat[1] === '-' ? 0 : parseInt(stat[1], 10);
+        entry.linesDeleted += stat[2] === '-' ? 0 : parseInt(stat[2], 10);
+        files.set(path, entry);
+    }
+
+    return files;
+}
+
+/**
+ * Read per-file churn for the last `windowDays` days, or null outside a git repository.
+ * Merge commits are skipped so merged changes are not counted twice.
+ */
+export async function collectChurn(repoPath: string, windowDays: number, now: Date = new Date()): Promise<ChurnLog | null> {
+    const since = new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+    let output: string;
+    try {
+        output = await git(repoPath, [
+            'log', '--no-merges', '--numstat', '--find-renames', '--relative', '--no-color',
+            `--format=%x00%H`, `--since=${since}`, '--', '.'
+        ]);
+    } catch {
+        return null;
+    }
+    return { since, files: parseNumstatLog(output) };
+}
+
+/**
+ * Summarize churn over the given (scanned) files relative to their current size
+ */
+export function summarizeChurn(
+    log: ChurnLog,
+    windowDays: number,
+    files: Array<{ file: string; lines: number }>
+): ChurnSummary {
+    const commits = new Set<string>();
+    let filesChanged = 0;
+    let linesAdded = 0;
+    let linesDeleted = 0;
+    let totalLines = 0;
+
+    for (const { file, lines } of files) {
+        totalLines += lines;
+        const churn = log.files.get(file.split('\\').join('/'));
+        if (!churn) continue;
+        filesChanged++;
+        linesAdded += churn.linesAdded;
+        linesDeleted += churn.linesDeleted;
+        churn.commitIds.forEach(id => commits.add(id));
+    }
+
+    return {
+        windowDays,
+        since: log.since,
+        commits: commits.size,
+        filesChanged,
+        linesAdded,
+        linesDeleted,
+        churnRate: totalLines > 0 ? Math.round(((linesAdded + linesDeleted) / totalLines) * 1000) / 10 : 0
+    };
+}
@@ -0,0 +1,180 @@
+/**
+ * Temporal Coupling
+ * Finds files that change together in the same commits, a form of architectural debt invisible to per-file analysis
+ */
+
+import { git } from './exec.js';
+import { createRenameTracker, NUMSTAT_LINE } from './churn.js';
+
+// Marks the start of each commit in the log output
+const COMMIT_MARKER = '\x00';
+
+// Pairs listed in the scan result
+const MAX_PAIRS = 50;
+
+export interface CouplingPair {
+    fileA: string;
+    fileB: string;
+    moduleA: string;
+    moduleB: string;
+    crossModule: boolean; // the files live in different packages or top-level directories
+    sharedCommits: number; // support: commits that changed both files
+    commitsA: number;
+    commitsB: number;
+    confidence: number; // 0-1: shared commits / commits of the less frequently changed file
+}
+
+export interface TemporalCoupling {
+    windowDays: number;
+    since: string;
+    commitsAnalyzed: number;
+    commitsSkipped: number; // commits touching more than maxFilesPerCommit files (mass edits, reformatting)
+    minSharedCommits: number;
+    minConfidence: number;
+    crossModulePairs: number;
+    pairs: CouplingPair[]; // cross-module pairs first, then by confidence and support
+}
+
+export interface CouplingOptions {
+    windowDays: number;
+    minSharedCommits: number;
+    minConfidence: number;
+    maxFilesPerCommit: number;
+}
+
+/**
+ * Parse `git log --numstat --format=%x00%H` output into the files changed by each commit.
+ * Renamed files are listed under their newest path, like in churn.
+ */
+export function parseCommitFiles(output: string): string[][] {
+    const commits: string[][] = [];
+    const currentPath = createRenameTracker();
+    let current: string[] | null = null;
+
+    for (const line of output.split('\n')) {
+        if (line.startsWith(COMMIT_MARKER)) {
+            current = [];
+            commits.push(current);
+            continue;
+        }
+        const stat = line.match(NUMSTAT_LINE);
+        if (current && stat) {
+            current.push(currentPath(stat[3]));
+        }
+    }
+    return commits;
+}
+
+/**
+ * Module of a repository-relative file: its top-level directory, or '.' for root files
+ */
+export function topLevelModule(file: string): string {
+    const slash = file.indexOf('/');
+    return slash > 0 ? file.substring(0, slash) : '.';
+}
+
+/**
+ * Count co-changes among `files` and keep pairs meeting the support and confidence thresholds
+ */
+export function computeCoupling(
+    commits: string[][],
+    files: Set<string>,
+    options: CouplingOptions,
+    moduleOf: (file: string) => string = topLevelModule
+): Omit<TemporalCoupling, 'windowDays' | 'since'> {
+    const commitCounts = new Map<string, number>();
+    const shared = new Map<string, number>(); // "a\0b" with a < b
+    let commitsAnalyzed = 0;
+    let commitsSkipped = 0;
+
+    for (const commit of commits) {
+        const changed = [...new Set(commit.filter(f => files.has(f)))].sort();
+        if (changed.length === 0) continue;
+        if (changed.length > options.maxFilesPerCommit) {
+            commitsSkipped++;
+            continue;
+        }
+        commitsAnalyzed++;
+        for (const file of changed) {
+            commitCounts.set(file, (commitCounts.get(file) ?? 0) + 1);
+        }
+        for (let i = 0; i < changed.length; i++) {
+            for (let j = i + 1; j < changed.length; j++) {
+                const key = `${changed[i]}\0${changed[j]}`;
+                shared.set(key, (shared.get(key) ?? 0) + 1);
+            }
+        }
+    }
+
+    const pairs: CouplingPair[] = [];
+    for (const [key, sharedCommits] of shared) {
+        if (sharedCommits < options.minSharedCommits) continue;
+        const [fileA, fileB] = key.split('\0');
+        const commitsA = commitCounts.get(fileA)!;
+        const commitsB = commitCounts.get(fileB)!;
+        const confidence = sharedCommits / Math.min(commitsA, commitsB);
+        if (confidence < options.minConfidence) continue;
+
+        const moduleA = moduleOf(fileA);
+        const moduleB = moduleOf(fileB);
+        pairs.push({
+            fileA,
+            fileB,
+            moduleA,
+            moduleB,
+            crossModule: moduleA !== moduleB,
+            sharedCommits,
+            commitsA,
+            commitsB,
+            confidence: Math.round(confidence * 100) / 100
+        });
+    }
+
+    pairs.sort((a, b) =>
+        Number(b.crossModule) - Number(a.crossModule) ||
+        b.confidence - a.confidence ||
+        b.sharedCommits - a.sharedCommits ||
+        a.fileA.localeCompare(b.fileA) ||
+        a.fileB.localeCompare(b.fileB)
+    );
+
+    return {
+        commitsAnalyzed,
+        commitsSkipped,
+        minSharedCommits: options.minSharedCommits,
+        minConfidence: options.minConfidence,
+        crossModulePairs: pairs.filter(p => p.crossModule).length,
+        pairs: pairs.slice(0, MAX_PAIRS)
+    };
+}
+
+/**
+ * Mine the last `windowDays` days of history for temporal coupling among the given
+ * repository-relative files, or return null outside a git repository.
+ * Merge commits are skipped; files are tracked across renames under their current path.
+ */
+export async function analyzeTemporalCoupling(
+    repoPath: string,
+    files: string[],
+    options: CouplingOptions,
+    moduleOf?: (file: string) => string,
+    now: Date = new Date()
+): Promise<TemporalCoupling | null> {
+    const since = new Date(now.getTime() - options.windowDays * 24 * 60 * 60 * 1000).toISOString();
+    let output: string;
+    try {
+        output = await git(repoPath, [
+            'log', '--no-merges', '--numstat', '--find-renames', '--relative', '--no-color',
+            '--format=%x00%H', `--since=${since}`, '--', '.'
+        ]);
+    } catch {
+        return null;
+    }
+
+    const tracked = new Set(files.map(f => f.split('\\').join('/')));
+    return {
+        windowDays: options.windowDays,
+        since,
+        ...computeCoupling(parseCommitFiles(output), tracked, options, moduleOf)
+    };
+}
@@ -0,0 +1,105 @@
+/**
+ * Git Diff Helpers
+ * Resolves the files and line ranges changed between a base ref and HEAD
+ */
+
+import { git } from './exec.js';
+
+export interface LineRange {
+    start: number;
+    end: number; // inclusive
+}
+
+export interface ChangeSet {
+    baseRef: string;
+    mergeBase: string;
+    files: Map<string, LineRange[]>; // path relative to repoPath -> added/modified line ranges in HEAD
+    renamedFrom: Map<string, string>; // HEAD path -> path at the merge base, for renamed or copied files
+}
+
+/**
+ * Parse `git diff --unified=0` output into changed line ranges per file
+ */
+export function parseUnifiedDiff(diff: string): Map<string, LineRange[]> {
+    const files = new Map<string, LineRange[]>();
+    let current: LineRange[] | null = null;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('+++ ')) {
+            const path = line.substring(4).trim();
+            if (path === '/dev/null') {
+                current = null;
+            } else {
+                current = [];
+                files.set(path.replace(/^b\//, ''), current);
+            }
+            continue;
+        }
+
+        const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+        if (hunk && current) {
+            const start = parseInt(hunk[1], 10);
+            const count = hunk[2] !== undefined ? parseInt(hunk[2], 10) : 1;
+            // Pure deletions (count 0) add no lines to HEAD
+            if (count > 0) {
+                current.push({ start, end: start + count - 1 });
+            }
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Parse `git diff --name-status -z` output into the old path of each renamed or copied file
+ */
+export function parseRenames(nameStatus: string): Map<string, string> {
+    const renamedFrom = new Map<string, string>();
+    const fields = nameStatus.split('\0');
+
+    for (let i = 0; i < fields.length;) {
+        const status = fields[i++];
+        if (!status) continue;
+        if (status.startsWith('R') || status.startsWith('C')) {
+            const oldPath = fields[i++];
+            const newPath = fields[i++];
+            renamedFrom.set(newPath, oldPath);
+        } else {
+            i++; // single path
+        }
+    }
+
+    return renamedFrom;
+}
+
+/**
+ * Collect files and line ranges changed between the merge base of `baseRef` and HEAD.
+ * Paths are relative to repoPath; deleted files are excluded. Renamed files are diffed
+ * against their old path, so only lines edited after the rename count as changed.
+ */
+export async function getChangeSet(repoPath: string, baseRef: string): Promise<ChangeSet> {
+    const mergeBase = (await git(repoPath, ['merge-base', baseRef, 'HEAD'])).trim();
+    const diffArgs = ['--no-color', '--no-ext-diff', '--relative', '--find-renames', '--diff-filter=ACMR', mergeBase, 'HEAD'];
+    const diff = await git(repoPath, ['diff', '--unified=0', ...diffArgs]);
+    const nameStatus = await git(repoPath, ['diff', '--name-status', '-z', ...diffArgs]);
+
+    return { baseRef, mergeBase, files: parseUnifiedDiff(diff), renamedFrom: parseRenames(nameStatus) };
+}
+
+/**
+ * Read a file's content at a given ref, or null if it did not exist there
+ */
+export async function readFileAtRef(repoPath: string, ref: string, file: string): Promise<string | null> {
+    try {
+        return await git(repoPath, ['show', `${ref}:./${file.split('\\').join('/')}`]);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check whether a line falls inside any of the given ranges
+ */
+export function isLineInRanges(line: number, ranges: LineRange[]): boolean {
+    return ranges.some(r => line >= r.start && line <= r.end);
+}
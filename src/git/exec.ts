@@ -0,0 +1,33 @@
+/**
+ * Git Command Runner
+ * Runs git in a repository and returns its standard output
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Large diffs, logs and file contents can exceed the default 1 MB buffer
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Run a git command with repoPath as the working directory
+ */
+export async function git(repoPath: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd: repoPath, maxBuffer: GIT_MAX_BUFFER });
+    return stdout;
+}
+
+/**
+ * Resolve the commit and branch checked out at HEAD, or null outside a git repository
+ */
+export async function getHeadCommit(repoPath: string): Promise<{ commit: string; branch: string | null } | null> {
+    try {
+        const commit = (await git(repoPath, ['rev-parse', 'HEAD'])).trim();
+        const branch = (await git(repoPath, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+        return { commit, branch: branch === 'HEAD' ? null : branch }; // detached HEAD
+    } catch {
+        return null;
+    }
+}
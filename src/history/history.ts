@@ -0,0 +1,172 @@
+/**
+ * Scan History
+ * Appends a snapshot of every full scan to .techdebt/history and turns the snapshots into time series
+ */
+
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { ScanResult } from '../scanner.js';
+import { AICodeSummary } from '../analyzers/aiCodeDetectorV2.js';
+
+// Bump when the snapshot layout changes; snapshots with another version are ignored
+const HISTORY_FORMAT_VERSION = 1;
+
+export const HISTORY_DIR = join('.techdebt', 'history');
+const HISTORY_FILE = 'snapshots.jsonl';
+
+export interface HistorySnapshot {
+    formatVersion: number;
+    timestamp: string; // ISO 8601, when the scan finished
+    commit: string | null; // HEAD commit SHA, null outside a git repository
+    branch: string | null; // null for a detached HEAD
+    totalFiles: number;
+    totalLines: number;
+    debtMinutes: number;
+    debtRatio: number;
+    sqaleRating: ScanResult['summary']['technicalDebt']['sqaleRating'];
+    maintainabilityIndex: number;
+    testCoverage: number;
+    issues: {
+        total: number;
+        byCategory: Record<string, number>; // maintainability, security, plugin categories
+        bySeverity: Record<string, number>;
+    };
+    aiCodePercentage: number;
+}
+
+export type TrendPoint = Omit<HistorySnapshot, 'formatVersion'>;
+
+export interface TrendChange {
+    debtMinutes: number;
+    totalIssues: number;
+    aiCodePercentage: number;
+    sqaleRating: { from: string; to: string };
+}
+
+export interface TrendSeries {
+    snapshots: number;
+    from: string | null;
+    to: string | null;
+    points: TrendPoint[]; // oldest first
+    change: TrendChange | null; // last point minus first point; null with fewer than two points
+}
+
+export interface TrendQuery {
+    since?: string; // ISO date; older snapshots are left out
+    branch?: string;
+    limit?: number; // keep the most recent N snapshots
+}
+
+/**
+ * Path of the history file for a repository
+ */
+export function historyPath(repoPath: string): string {
+    return join(repoPath, HISTORY_DIR, HISTORY_FILE);
+}
+
+function countBy(issues: ScanResult['issues'], key: 'category' | 'severity'): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const issue of issues) {
+        counts[issue[key]] = (counts[issue[key]] ?? 0) + 1;
+    }
+    return counts;
+}
+
+/**
+ * Summarize a scan as a history snapshot
+ */
+export function createSnapshot(
+    scanResult: ScanResult,
+    aiSummary: AICodeSummary,
+    head: { commit: string; branch: string | null } | null
+): HistorySnapshot {
+    const { summary } = scanResult;
+    return {
+        formatVersion: HISTORY_FORMAT_VERSION,
+        timestamp: new Date().toISOString(),
+        commit: head?.commit ?? null,
+        branch: head?.branch ?? null,
+        totalFiles: summary.totalFiles,
+        totalLines: summary.totalLines,
+        debtMinutes: summary.technicalDebt.totalMinutes,
+        debtRatio: Math.round(summary.technicalDebt.debtRatio * 100) / 100,
+        sqaleRating: summary.technicalDebt.sqaleRating,
+        maintainabilityIndex: Math.round(summary.technicalDebt.maintainabilityIndex * 10) / 10,
+        testCoverage: Math.round(summary.quality.testCoverage * 10) / 10,
+        issues: {
+            total: summary.totalIssues,
+            byCategory: countBy(scanResult.issues, 'category'),
+            bySeverity: countBy(scanResult.issues, 'severity')
+        },
+        aiCodePercentage: aiSummary.aiCodePercentage
+    };
+}
+
+/**
+ * Append a snapshot to the repository's history file (one JSON object per line)
+ */
+export async function appendSnapshot(repoPath: string, snapshot: HistorySnapshot): Promise<string> {
+    const path = historyPath(repoPath);
+    await mkdir(dirname(path), { recursive: true });
+    await appendFile(path, JSON.stringify(snapshot) + '\n', 'utf-8');
+    return path;
+}
+
+/**
+ * Load every readable snapshot, oldest first. Malformed lines (e.g. an interrupted write) are skipped.
+ */
+export async function loadHistory(repoPath: string): Promise<HistorySnapshot[]> {
+    let raw: string;
+    try {
+        raw = await readFile(historyPath(repoPath), 'utf-8');
+    } catch {
+        return [];
+    }
+
+    const snapshots: HistorySnapshot[] = [];
+    for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            const snapshot = JSON.parse(line) as HistorySnapshot;
+            if (snapshot.formatVersion === HISTORY_FORMAT_VERSION) snapshots.push(snapshot);
+        } catch {
+            // Skip the damaged line and keep the rest of the history
+        }
+    }
+    return snapshots.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Filter snapshots and compute the change between the first and last remaining point
+ */
+export function computeTrends(snapshots: HistorySnapshot[], query: TrendQuery = {}): TrendSeries {
+    const since = query.since ? Date.parse(query.since) : NaN;
+    if (query.since && Number.isNaN(since)) {
+        throw new Error(`Invalid date for since: '${query.since}'`);
+    }
+
+    let points: TrendPoint[] = snapshots
+        .filter(s => Number.isNaN(since) || Date.parse(s.timestamp) >= since)
+        .filter(s => !query.branch || s.branch === query.branch)
+        .map(({ formatVersion, ...point }) => point);
+    if (query.limit !== undefined) {
+        points = points.slice(-query.limit);
+    }
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    return {
+        snapshots: points.length,
+        from: first?.timestamp ?? null,
+        to: last?.timestamp ?? null,
+        points,
+        change: points.length >= 2
+            ? {
+                debtMinutes: last.debtMinutes - first.debtMinutes,
+                totalIssues: last.issues.total - first.issues.total,
+                aiCodePercentage: last.aiCodePercentage - first.aiCodePercentage,
+                sqaleRating: { from: first.sqaleRating, to: last.sqaleRating }
+            }
+            : null
+    };
+}
@@ -0,0 +1,60 @@
+/**
+ * MCP Progress Reporting
+ * Sends notifications/progress for long-running tools and exposes request cancellation
+ */
+
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export interface ProgressReporter {
+    signal?: AbortSignal;
+    /** Report progress; throttled, and skipped when the client did not ask for progress */
+    report(progress: number, total: number | undefined, message: string, force?: boolean): Promise<void>;
+    /** Throw if the client cancelled the request */
+    throwIfCancelled(): void;
+    isCancelled(): boolean;
+}
+
+/**
+ * Create a progress reporter for a tool invocation.
+ * Notifications are rate-limited to one per `minIntervalMs` unless forced (phase changes),
+ * and progress values only ever increase, as the MCP spec requires.
+ */
+export function createProgressReporter(extra?: ToolExtra, minIntervalMs: number = 250): ProgressReporter {
+    const progressToken = extra?._meta?.progressToken;
+    const signal = extra?.signal;
+    let lastProgress = -1;
+    let lastSentAt = 0;
+
+    const isCancelled = () => signal?.aborted === true;
+
+    return {
+        signal,
+        isCancelled,
+        throwIfCancelled() {
+            if (isCancelled()) {
+                throw new Error('Request cancelled by client');
+            }
+        },
+        async report(progress, total, message, force = false) {
+            if (progressToken === undefined || isCancelled()) return;
+            if (progress <= lastProgress) return;
+
+            const now = Date.now();
+            if (!force && now - lastSentAt < minIntervalMs && progress !== total) return;
+
+            lastProgress = progress;
+            lastSentAt = now;
+            try {
+                await extra!.sendNotification({
+                    method: 'notifications/progress',
+                    params: { progressToken, progress, total, message }
+                });
+            } catch (error: any) {
+                console.error(`[TechDebt] Failed to send progress notification: ${error.message}`);
+            }
+        }
+    };
+}
@@ -0,0 +1,173 @@
+/**
+ * Code Ownership
+ * Parses CODEOWNERS (GitHub and GitLab syntax) and rolls scan results up per owning team
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { Minimatch } from 'minimatch';
+import { aggregateResults, FileScanResult, ScanResult } from '../scanner.js';
+import { BusinessImpact } from '../calculators/businessImpact.js';
+import { CostModel } from '../config/config.js';
+
+// Searched in this order; the first file found is used (GitHub and GitLab locations)
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', '.gitlab/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+// Files no rule assigns an owner to are summarized under this name
+export const UNOWNED = '(unowned)';
+
+export interface CodeownersRule {
+    pattern: string;
+    owners: string[]; // empty when the rule removes ownership
+    section: string | null; // GitLab section, null outside sections
+    line: number;
+    matchers: Minimatch[];
+}
+
+export interface Codeowners {
+    path: string; // relative to the repository root
+    rules: CodeownersRule[];
+}
+
+export interface OwnerSummary {
+    owner: string;
+    files: number;
+    lines: number;
+    totalIssues: number;
+    criticalIssues: number;
+    technicalDebt: ScanResult['summary']['technicalDebt'];
+    businessImpact: BusinessImpact;
+}
+
+// GitLab section header: [Name], ^[Optional Name], [Name][2], optionally followed by default owners
+const SECTION_HEADER = /^\^?\[([^\]]+)\](?:\[\d+\])?(?:\s+(.*))?$/;
+
+/**
+ * Split a line into whitespace-separated fields, honoring backslash-escaped spaces
+ */
+function splitFields(line: string): string[] {
+    return line.split(/(?<!\\)\s+/).filter(Boolean).map(field => field.replace(/\\(.)/g, '$1'));
+}
+
+/**
+ * Translate a CODEOWNERS pattern (gitignore rules) into minimatch patterns.
+ * Patterns without a leading or inner slash match at any depth, and a pattern
+ * naming a directory covers everything below it.
+ */
+function compilePattern(pattern: string): Minimatch[] {
+    const directoryOnly = pattern.endsWith('/');
+    let glob = pattern.replace(/\/+$/, '');
+    const anchored = glob.includes('/');
+    glob = glob.replace(/^\//, '');
+    if (!anchored && !glob.startsWith('**')) {
+        glob = `**/${glob}`;
+    }
+
+    // `docs/*` owns only the files directly in docs; `docs` and `docs/` own the whole tree
+    const lastSegment = glob.substring(glob.lastIndexOf('/') + 1);
+    const globs = directoryOnly
+        ? [`${glob}/**`]
+        : lastSegment.includes('*') ? [glob] : [glob, `${glob}/**`];
+    return globs.map(g => new Minimatch(g, { dot: true }));
+}
+
+/**
+ * Parse CODEOWNERS content. Comments and blank lines are ignored; inside a GitLab
+ * section, rules without owners inherit the section's default owners.
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+    const rules: CodeownersRule[] = [];
+    let section: string | null = null;
+    let sectionOwners: string[] = [];
+
+    content.split('\n').forEach((raw, index) => {
+        const line = raw.trim();
+        if (!line || line.startsWith('#')) return;
+
+        const header = line.match(SECTION_HEADER);
+        if (header) {
+            section = header[1].trim();
+            sectionOwners = splitFields((header[2] ?? '').replace(/(^|\s+)#.*$/, ''));
+            return;
+        }
+
+        // Inline comments start with an unescaped # after whitespace
+        const [pattern, ...owners] = splitFields(line.replace(/\s+#.*$/, ''));
+        rules.push({
+            pattern,
+            owners: owners.length > 0 ? owners : section ? sectionOwners : [],
+            section,
+            line: index + 1,
+            matchers: compilePattern(pattern)
+        });
+    });
+
+    return rules;
+}
+
+/**
+ * Load the repository's CODEOWNERS file, or null if it has none
+ */
+export async function loadCodeowners(repoPath: string): Promise<Codeowners | null> {
+    for (const path of CODEOWNERS_PATHS) {
+        let content: string;
+        try {
+            content = await readFile(join(repoPath, path), 'utf-8');
+        } catch {
+            continue;
+        }
+        return { path, rules: parseCodeowners(content) };
+    }
+    return null;
+}
+
+/**
+ * Owners of a repository-relative file. The last matching rule wins; with GitLab
+ * sections, the last match of every section applies and their owners are combined.
+ */
+export function resolveOwners(codeowners: Codeowners, file: string): string[] {
+    const posixFile = file.split('\\').join('/');
+    const lastMatch = new Map<string | null, CodeownersRule>();
+    for (const rule of codeowners.rules) {
+        if (rule.matchers.some(m => m.match(posixFile))) {
+            lastMatch.set(rule.section, rule);
+        }
+    }
+    return [...new Set([...lastMatch.values()].flatMap(rule => rule.owners))];
+}
+
+/**
+ * Aggregate file results per owner. A file with several owners counts toward each of
+ * them; files without an owner go to UNOWNED. Sorted by debt, largest first.
+ */
+export function summarizeOwners(
+    fileResults: Array<FileScanResult & { file: string }>,
+    ownersOf: (file: string) => string[],
+    testCoverage: number,
+    costModel: Partial<CostModel> = {}
+): OwnerSummary[] {
+    const groups = new Map<string, Array<FileScanResult & { file: string }>>();
+    for (const result of fileResults) {
+        const owners = ownersOf(result.file);
+        for (const owner of owners.length > 0 ? owners : [UNOWNED]) {
+            const group = groups.get(owner) ?? [];
+            group.push(result);
+            groups.set(owner, group);
+        }
+    }
+
+    return [...groups.entries()]
+        .map(([owner, group]) => {
+            const { summary, businessImpact } = aggregateResults(group, testCoverage, costModel);
+            return {
+                owner,
+                files: summary.totalFiles,
+                lines: summary.totalLines,
+                totalIssues: summary.totalIssues,
+                criticalIssues: summary.criticalIssues,
+                technicalDebt: summary.technicalDebt,
+                businessImpact
+            };
+        })
+        .sort((a, b) => b.technicalDebt.totalMinutes - a.technicalDebt.totalMinutes || a.owner.localeCompare(b.owner));
+}
@@ -0,0 +1,612 @@
+/**
+ * Markdown Reports
+ * Developer-level scan report and AI code detection report, shared by the MCP tools and the CLI
+ */
+
+import { ScanResult } from '../scanner.js';
+import { calculateEnterpriseMetrics, generateBenchmarks } from '../calculators/enterpriseMetrics.js';
+import { AICodeAnalysis, AICodeSummary } from '../analyzers/aiCodeDetectorV2.js';
+import { WorkspaceSummary } from '../workspaces/workspaces.js';
+import { OwnerSummary } from '../ownership/codeowners.js';
+import { QualityGateResult } from '../gates/qualityGate.js';
+import { IssueAgeDistribution } from '../git/blame.js';
+import { Hotspot } from '../calculators/hotspots.js';
+import { CouplingPair } from '../git/coupling.js';
+import { CoverageSummary } from '../coverage/coverage.js';
+
+export function formatWorkspaceTable(workspaces: WorkspaceSummary[]): string {
+    return `| Package | Path | Files | Issues | Debt | Debt Ratio | SQALE | Est. Cost |
+|---------|------|-------|--------|------|------------|-------|-----------|
+${workspaces.map(w => 
+    `| ${w.name} | \`${w.path}\` | ${w.files} | ${w.totalIssues} (${w.criticalIssues} critical) | ${w.businessImpact.timeToFix} | ${w.technicalDebt.debtRatio.toFixed(1)}% | ${w.technicalDebt.sqaleRating} | $${w.businessImpact.financialCost.toLocaleString()} |`
+).join('\n')}`;
+}
+
+export function formatOwnershipTable(owners: OwnerSummary[]): string {
+    return `| Owner | Files | Issues | Debt | Debt Ratio | SQALE | Est. Cost |
+|-------|-------|--------|------|------------|-------|-----------|
+${owners.map(o => 
+    `| ${o.owner} | ${o.files} | ${o.totalIssues} (${o.criticalIssues} critical) | ${o.businessImpact.timeToFix} | ${o.technicalDebt.debtRatio.toFixed(1)}% | ${o.technicalDebt.sqaleRating} | $${o.businessImpact.financialCost.toLocaleString()} |`
+).join('\n')}`;
+}
+
+export function formatIssueAge(age: IssueAgeDistribution): string {
+    return `| Last Changed | Issues | Debt (min) |
+|--------------|--------|------------|
+${age.buckets.map(b => `| ${b.label} | ${b.issues} | ${b.debtMinutes} |`).join('\n')}${age.unknown > 0 ? `
+| Unknown (no line or untracked) | ${age.unknown} | - |` : ''}
+
+**Median Issue Age:** ${age.medianDays ?? 'n/a'} days | **Oldest:** ${age.oldestDays ?? 'n/a'} days`;
+}
+
+export function formatHotspots(hotspots: Hotspot[]): string {
+    return `| # | File | Commits | Complexity (Cyc + Cog) | Lines Changed | Issues | Hotspot Score |
+|---|------|---------|------------------------|---------------|--------|---------------|
+${hotspots.map((h, i) => 
+    `| ${i + 1} | \`${h.file}\` | ${h.commits} | ${h.cyclomatic} + ${h.cognitive} | ${h.linesChanged} | ${h.issues} | ${h.score} (${h.relativeScore}%) |`
+).join('\n')}`;
+}
+
+export function formatCouplingTable(pairs: CouplingPair[]): string {
+    return `| File A | File B | Shared Commits | Confidence | Cross-Module |
+|--------|--------|----------------|------------|--------------|
+${pairs.map(p => 
+    `| \`${p.fileA}\` | \`${p.fileB}\` | ${p.sharedCommits} (${p.commitsA}/${p.commitsB}) | ${Math.round(p.confidence * 100)}% | ${p.crossModule ? `⚠️ ${p.moduleA} ↔ ${p.moduleB}` : '-'} |`
+).join('\n')}`;
+}
+
+export function formatCoverageSource(coverage?: CoverageSummary): string {
+    if (!coverage) {
+        return '(estimated from test file count; add a coverage report for real numbers)';
+    }
+    const branches = coverage.branchCoverage !== null ? `, ${coverage.branchCoverage.toFixed(1)}% of branches` : '';
+    return `of lines${branches} (${coverage.reports.map(r => `${r.format}: \`${r.path}\``).join(', ')})`;
+}
+
+export function formatQualityGate(gate: QualityGateResult): string {
+    const icon = { passed: '✅', failed: '❌', skipped: '➖' };
+    return `**Status:** ${gate.status === 'passed' ? '✅ PASSED' : '❌ FAILED'}
+
+| Condition | Actual | Threshold | Result |
+|-----------|--------|-----------|--------|
+${gate.conditions.map(c => 
+    `| ${c.name} | ${c.actual ?? 'n/a'} | ${c.threshold} | ${icon[c.status]} ${c.status} |`
+).join('\n')}`;
+}
+
+export function generateMarkdownReport(scanResult: ScanResult, repoPath: string, aiSummary?: AICodeSummary): string {
+    const timestamp = new Date().toISOString();
+    const enterpriseMetrics = calculateEnterpriseMetrics(scanResult);
+    const benchmarks = generateBenchmarks(enterpriseMetrics);
+    
+    // Determine overall health status
+    let healthStatus = '🟢 Excellent';
+    let healthColor = 'green';
+    if (enterpriseMetrics.technicalDebtRatio > 40 || enterpriseMetrics.codeQualityScore < 50) {
+        healthStatus = '🔴 Critical';
+        healthColor = 'red';
+    } else if (enterpriseMetrics.technicalDebtRatio > 25 || enterpriseMetrics.codeQualityScore < 65) {
+        healthStatus = '🟠 Needs Attention';
+        healthColor = 'orange';
+    } else if (enterpriseMetrics.technicalDebtRatio > 10 || enterpriseMetrics.codeQualityScore < 75) {
+        healthStatus = '🟡 Good';
+        healthColor = 'yellow';
+    }
+    
+    return `# 📊 Enterprise Technical Debt Analysis Report
+
+**Repository:** \`${repoPath}\`  
+**Generated:** ${new Date(timestamp).toLocaleString()}  
+**Overall Health:** ${healthStatus}  
+**SQALE Rating:** ${scanResult.summary.technicalDebt.sqaleRating}${scanResult.qualityGate ? `  
+**Quality Gate:** ${scanResult.qualityGate.status === 'passed' ? '✅ Passed' : '❌ Failed'}` : ''}
+
+---
+
+${scanResult.qualityGate ? `## 🚦 Quality Gate
+
+${formatQualityGate(scanResult.qualityGate)}
+
+---
+
+` : ''}## 🎯 Executive Summary
+
+### Health Status Dashboard
+
+| Metric | Value | Status | Industry Benchmark |
+|--------|-------|--------|-------------------|
+| **Technical Debt Ratio** | ${enterpriseMetrics.technicalDebtRatio.toFixed(1)}% | ${benchmarks[0].status} | ${benchmarks[0].industry}% |
+| **Code Quality Score** | ${enterpriseMetrics.codeQualityScore}/100 | ${benchmarks[3].status} | ${benchmarks[3].industry}/100 |
+| **Defect Density** | ${enterpriseMetrics.defectDensity.toFixed(2)}/1K LOC | ${benchmarks[1].status} | ${benchmarks[1].industry}/1K LOC |
+| **Test Coverage** | ${enterpriseMetrics.testCoverage.overall.toFixed(1)}% | ${benchmarks[2].status} | ${benchmarks[2].industry}% |
+| **Maintenance Cost Ratio** | ${enterpriseMetrics.maintenanceCostRatio.toFixed(1)}% | ${benchmarks[4].status} | ${benchmarks[4].industry}% |
+
+### 💰 Financial Impact
+
+- **Estimated Remediation Cost:** $${scanResult.businessImpact.financialCost.toLocaleString()}
+- **Time to Fix:** ${scanResult.businessImpact.timeToFix}
+- **Monthly Maintenance Burden:** $${(scanResult.businessImpact.financialCost * (enterpriseMetrics.maintenanceCostRatio / 100)).toLocaleString()}
+- **Annual Technical Debt Cost:** $${(scanResult.businessImpact.financialCost * 12 * (enterpriseMetrics.maintenanceCostRatio / 100)).toLocaleString()}
+
+### 📈 Key Performance Indicators
+
+| Category | Metric | Value |
+|----------|--------|-------|
+| **Codebase** | Total Files | ${scanResult.summary.totalFiles.toLocaleString()} |
+| | Lines of Code | ${scanResult.summary.totalLines.toLocaleString()} |
+| | Code Churn Rate | ${scanResult.summary.churn ? `${enterpriseMetrics.codeChurnRate.toFixed(1)}% (${scanResult.summary.churn.windowDays} days, ${scanResult.summary.churn.commits} commits)` : 'n/a (no git history)'} |
+| **Quality** | Total Issues | ${scanResult.summary.totalIssues.toLocaleString()} |
+| | Critical Issues | ${scanResult.summary.criticalIssues} |
+| | Security Vulnerabilities | ${scanResult.summary.quality.securityIssues} |
+| | Code Smells | ${scanResult.summary.quality.codeSmells} |
+| **Complexity** | Avg Cyclomatic | ${scanResult.summary.complexity.avgCyclomatic.toFixed(1)} |
+| | Avg Cognitive | ${scanResult.summary.complexity.avgCognitive.toFixed(1)} |
+| | High Complexity Files | ${scanResult.summary.complexity.highComplexityFiles} |
+
+---
+
+## 🚀 DORA Metrics (DevOps Performance)
+
+| Metric | Current Value | Industry Target |
+|--------|---------------|-----------------|
+| **Deployment Frequency** | ${enterpriseMetrics.deploymentFrequency} | Multiple per day |
+| **Lead Time for Changes** | ${enterpriseMetrics.leadTimeForChanges} | <1 day |
+| **Change Failure Rate** | ${enterpriseMetrics.changeFailureRate.toFixed(1)}% | <15% |
+| **Time to Restore Service** | ${enterpriseMetrics.timeToRestoreService} | <1 hour |
+
+**Performance Level:** ${
+    enterpriseMetrics.deploymentFrequency === 'Multiple per day' && 
+    enterpriseMetrics.changeFailureRate < 15 ? '🏆 Elite' :
+    enterpriseMetrics.deploymentFrequency === 'Weekly' ? '⭐ High' :
+    enterpriseMetrics.deploymentFrequency === 'Monthly' ? '📊 Medium' : '⚠️ Low'
+}
+
+---
+
+## 👥 Developer Productivity & Team Health
+
+### Velocity Impact Analysis
+
+- **Current Velocity:** ${enterpriseMetrics.velocityTrend.current}/100
+- **Previous Velocity:** ${enterpriseMetrics.velocityTrend.previous.toFixed(1)}/100
+- **Velocity Change:** ${enterpriseMetrics.velocityTrend.change.toFixed(1)}%
+- **Impact Level:** ${enterpriseMetrics.velocityTrend.impactLevel}
+
+### Focus Time & Interruptions
+
+- **Focus Time Percentage:** ${enterpriseMetrics.focusTime.percentage.toFixed(1)}%
+- **Daily Interruptions:** ~${enterpriseMetrics.focusTime.interruptionRate} per day
+- **Team Satisfaction Index:** ${enterpriseMetrics.teamSatisfactionIndex}/100
+
+**Productivity Assessment:** ${
+    enterpriseMetrics.velocityTrend.impactLevel === 'Low' ? '✅ Team is highly productive' :
+    enterpriseMetrics.velocityTrend.impactLevel === 'Medium' ? '⚠️ Moderate productivity concerns' :
+    enterpriseMetrics.velocityTrend.impactLevel === 'High' ? '🔶 Significant productivity impact' :
+    '🔴 Critical productivity degradation'
+}
+
+---
+
+## 📊 Detailed Code Quality Analysis
+
+### Test Coverage Breakdown
+
+| Type | Coverage | Target | Status |
+|------|----------|--------|--------|
+| **Overall** | ${enterpriseMetrics.testCoverage.overall.toFixed(1)}% | 80% | ${enterpriseMetrics.testCoverage.overall >= 80 ? '✅' : '❌'} |
+${enterpriseMetrics.testCoverage.source === 'report' ? `| **Lines** | ${enterpriseMetrics.testCoverage.line.toFixed(1)}% | 80% | ${enterpriseMetrics.testCoverage.line >= 80 ? '✅' : '❌'} |
+${enterpriseMetrics.testCoverage.branch !== null ? `| **Branches** | ${enterpriseMetrics.testCoverage.branch.toFixed(1)}% | 70% | ${enterpriseMetrics.testCoverage.branch >= 70 ? '✅' : '❌'} |
+` : ''}` : ''}| **Unit Tests** | ${enterpriseMetrics.testCoverage.unit.toFixed(1)}% | 70% | ${enterpriseMetrics.testCoverage.unit >= 70 ? '✅' : '❌'} |
+| **Integration Tests** | ${enterpriseMetrics.testCoverage.integration.toFixed(1)}% | 20% | ${enterpriseMetrics.testCoverage.integration >= 20 ? '✅' : '❌'} |
+| **E2E Tests** | ${enterpriseMetrics.testCoverage.e2e.toFixed(1)}% | 10% | ${enterpriseMetrics.testCoverage.e2e >= 10 ? '✅' : '❌'} |
+
+**Source:** ${scanResult.coverage
+    ? `${scanResult.coverage.reports.length} coverage report(s), ${scanResult.coverage.files} repository files${scanResult.coverage.unmatchedFiles > 0 ? `, ${scanResult.coverage.unmatchedFiles} report entries outside the repository ignored` : ''} (${scanResult.coverage.reports.map(r => `\`${r.path}\``).join(', ')})`
+    : 'estimated from the ratio of test files to source files'}. The unit, integration and E2E split is estimated.
+
+### Complexity Distribution
+
+- **Average Cyclomatic Complexity:** ${scanResult.summary.complexity.avgCyclomatic.toFixed(1)} ${scanResult.summary.complexity.avgCyclomatic > 15 ? '⚠️ High' : scanResult.summary.complexity.avgCyclomatic > 10 ? '⚡ Moderate' : '✅ Good'}
+- **Average Cognitive Complexity:** ${scanResult.summary.complexity.avgCognitive.toFixed(1)}
+- **Files Needing Refactoring:** ${scanResult.summary.complexity.highComplexityFiles}
+- **Code Duplication Rate:** ${enterpriseMetrics.duplicationRate.toFixed(1)}%
+
+---
+
+## 🎯 Business Impact Assessment
+
+### Customer Impact
+
+- **Customer Impact Score:** ${enterpriseMetrics.customerImpactScore}/100
+- **Risk to Customer Experience:** ${enterpriseMetrics.customerImpactScore < 50 ? '🔴 High Risk' : enterpriseMetrics.customerImpactScore < 70 ? '🟡 Moderate Risk' : '🟢 Low Risk'}
+
+**Analysis:** ${scanResult.businessImpact.customerImpact}
+
+### Productivity Impact
+
+**Analysis:** ${scanResult.businessImpact.productivityImpact}
+
+### Scalability & Growth
+
+- **Scalability Index:** ${enterpriseMetrics.scalabilityIndex}/100
+- **Feature Delivery Velocity:** ${enterpriseMetrics.featureDeliveryVelocity} features/sprint
+- **Ability to Scale:** ${enterpriseMetrics.scalabilityIndex >= 70 ? '✅ Good' : enterpriseMetrics.scalabilityIndex >= 50 ? '⚠️ Limited' : '🔴 Constrained'}
+
+---
+
+## 🛡️ Security & Compliance Posture
+
+| Metric | Score | Status |
+|--------|-------|--------|
+| **Security Posture** | ${enterpriseMetrics.securityPosture}/100 | ${enterpriseMetrics.securityPosture >= 80 ? '🟢 Strong' : enterpriseMetrics.securityPosture >= 60 ? '🟡 Moderate' : '🔴 Weak'} |
+| **Compliance Risk** | ${enterpriseMetrics.complianceRisk}/100 | ${enterpriseMetrics.complianceRisk < 30 ? '🟢 Low' : enterpriseMetrics.complianceRisk < 60 ? '🟡 Moderate' : '🔴 High'} |
+| **Critical Path Risk** | ${enterpriseMetrics.criticalPathRisk}/100 | ${enterpriseMetrics.criticalPathRisk < 30 ? '🟢 Low' : enterpriseMetrics.criticalPathRisk < 60 ? '🟡 Moderate' : '🔴 High'} |
+
+**Security Issues Found:** ${scanResult.summary.quality.securityIssues}
+
+---
+
+## 🚨 Critical Actions Required
+
+${scanResult.summary.criticalIssues > 0 ? `
+### Immediate Actions (Next 24-48 Hours)
+
+${scanResult.issues.filter((i: any) => i.severity === 'critical').slice(0, 5).map((issue: any, idx: number) => 
+    `${idx + 1}. **[CRITICAL]** ${issue.message} in \`${issue.file}:${issue.line}\`${issue.blame ? ` (last changed ${issue.blame.date.substring(0, 10)} by ${issue.blame.author})` : ''}${issue.owners?.length ? ` → ${issue.owners.join(', ')}` : ''}`
+).join('\n')}
+` : '✅ No critical issues requiring immediate attention'}
+
+### High Priority (This Sprint)
+
+${scanResult.issues.filter((i: any) => i.severity === 'high').slice(0, 10).map((issue: any, idx: number) => 
+    `${idx + 1}. **[HIGH]** ${issue.message} in \`${issue.file}:${issue.line}\`${issue.owners?.length ? ` → ${issue.owners.join(', ')}` : ''}`
+).join('\n') || '✅ No high priority issues'}
+
+---
+
+${scanResult.workspaces ? `## 📦 Workspace Breakdown
+
+${formatWorkspaceTable(scanResult.workspaces)}
+
+---
+
+` : ''}${scanResult.summary.issueAge ? `## ⏳ Issue Age (git blame)
+
+${formatIssueAge(scanResult.summary.issueAge)}
+
+---
+
+` : ''}${scanResult.ownership ? `## 👥 Debt by Owner (CODEOWNERS)
+
+${formatOwnershipTable(scanResult.ownership)}
+
+---
+
+` : ''}${scanResult.hotspots && scanResult.hotspots.length > 0 ? `## 🌡️ Hotspots (Change Frequency × Complexity)
+
+Complex files that also change often cost the most developer time. Refactor these first.
+
+${formatHotspots(scanResult.hotspots.slice(0, 10))}
+
+---
+
+` : ''}${scanResult.temporalCoupling && scanResult.temporalCoupling.pairs.length > 0 ? `## 🔗 Temporal Coupling
+
+Files that change together in the same commits (last ${scanResult.temporalCoupling.windowDays} days, ${scanResult.temporalCoupling.commitsAnalyzed} commits, at least ${scanResult.temporalCoupling.minSharedCommits} shared commits and ${Math.round(scanResult.temporalCoupling.minConfidence * 100)}% confidence). Coupling across modules points to hidden dependencies: consider moving the shared concept into one place.
+
+${formatCouplingTable(scanResult.temporalCoupling.pairs.slice(0, 15))}
+
+---
+
+` : ''}## 🔥 Top 10 Files Requiring Immediate Attention
+
+${scanResult.trends.worstFiles.slice(0, 10).map((f: any, i: number) => 
+    `### ${i + 1}. \`${f.file}\`
+- **Health Score:** ${f.score.toFixed(1)}/100
+- **Reason:** ${f.reason}
+- **Estimated Fix Time:** ${Math.ceil((100 - f.score) / 10)} hours
+`
+).join('\n')}
+
+---
+
+## ⚡ Quick Wins (High ROI, Low Effort)
+
+${scanResult.trends.quickWins.slice(0, 15).map((qw: any, i: number) => 
+    `${i + 1}. **\`${qw.file}\`** - ${qw.impact} (${qw.effort} minutes)`
+).join('\n')}
+
+**Total Quick Win Time:** ${scanResult.trends.quickWins.slice(0, 15).reduce((sum: number, qw: any) => sum + qw.effort, 0)} minutes (~${Math.ceil(scanResult.trends.quickWins.slice(0, 15).reduce((sum: number, qw: any) => sum + qw.effort, 0) / 60)} hours)
+
+---
+
+## 📋 Benchmark Comparison
+
+| Metric | Your Value | Target | Industry Avg | Gap | Status |
+|--------|------------|--------|--------------|-----|--------|
+${benchmarks.map(b => 
+    `| **${b.metric}** | ${b.current.toFixed(1)} | ${b.target.toFixed(1)} | ${b.industry.toFixed(1)} | ${b.gap > 0 ? '+' : ''}${b.gap.toFixed(1)} | ${b.status} |`
+).join('\n')}
+
+---
+
+## 💡 Strategic Recommendations
+
+### Short Term (1-2 Sprints)
+
+${scanResult.businessImpact.recommendations.slice(0, 3).map((rec: string, i: number) => 
+    `${i + 1}. ${rec}`
+).join('\n')}
+
+### Medium Term (1-2 Quarters)
+
+${scanResult.businessImpact.recommendations.slice(3, 6).map((rec: string, i: number) => 
+    `${i + 1}. ${rec}`
+).join('\n') || '- Continue monitoring and maintaining current quality levels'}
+
+### Long Term (6-12 Months)
+
+- Establish automated quality gates in CI/CD pipeline
+- Implement continuous technical debt monitoring
+- Set up developer productivity dashboards
+- Create technical debt budget allocation process
+
+---
+
+## 📈 ROI Projection
+
+### Investment Required
+
+- **Immediate Fixes:** $${(scanResult.businessImpact.financialCost * 0.3).toLocaleString()} (Critical + High priority)
+- **Complete Remediation:** $${scanResult.businessImpact.financialCost.toLocaleString()}
+- **Estimated Timeline:** ${scanResult.businessImpact.timeToFix}
+
+### Expected Returns
+
+- **Velocity Improvement:** +${Math.abs(enterpriseMetrics.velocityTrend.change).toFixed(0)}% to +40%
+- **Defect Reduction:** -50% to -70%
+- **Maintenance Cost Savings:** $${(scanResult.businessImpact.financialCost * 0.4).toLocaleString()}/year
+- **Developer Satisfaction:** +${(100 - enterpriseMetrics.teamSatisfactionIndex).toFixed(0)} points
+
+**Break-Even Point:** ${enterpriseMetrics.maintenanceCostRatio > 30 ? '3-6 months' : '6-12 months'}
+
+---
+
+## 📊 Detailed Issue Breakdown
+
+### By Severity
+
+| Severity | Count | % of Total |
+|----------|-------|------------|
+| Critical | ${scanResult.issues.filter((i: any) => i.severity === 'critical').length} | ${((scanResult.issues.filter((i: any) => i.severity === 'critical').length / scanResult.summary.totalIssues) * 100).toFixed(1)}% |
+| High | ${scanResult.issues.filter((i: any) => i.severity === 'high').length} | ${((scanResult.issues.filter((i: any) => i.severity === 'high').length / scanResult.summary.totalIssues) * 100).toFixed(1)}% |
+| Medium | ${scanResult.issues.filter((i: any) => i.severity === 'medium').length} | ${((scanResult.issues.filter((i: any) => i.severity === 'medium').length / scanResult.summary.totalIssues) * 100).toFixed(1)}% |
+| Low | ${scanResult.issues.filter((i: any) => i.severity === 'low').length} | ${((scanResult.issues.filter((i: any) => i.severity === 'low').length / scanResult.summary.totalIssues) * 100).toFixed(1)}% |
+
+### By Type
+
+| Type | Count |
+|------|-------|
+| Complexity | ${scanResult.issues.filter((i: any) => i.type === 'complexity').length} |
+| Code Smell | ${scanResult.issues.filter((i: any) => i.type === 'code_smell').length} |
+| Security | ${scanResult.issues.filter((i: any) => i.type === 'security').length} |
+| Best Practice | ${scanResult.issues.filter((i: any) => i.type === 'best_practice').length} |
+
+### Suppressed Findings (Audit)
+
+${scanResult.suppressed.length > 0 ? `| Rule | Location | Directive | Justification |
+|------|----------|-----------|---------------|
+${scanResult.suppressed.slice(0, 50).map(s => 
+    `| ${s.type} | \`${s.file}${s.line ? `:${s.line}` : ''}\` | ${s.directive} (line ${s.directiveLine}) | ${s.justification || '⚠️ No justification given'} |`
+).join('\n')}` : '✅ No suppressed findings'}
+
+### Skipped Files
+
+${scanResult.skipped.length > 0 ? `| File | Reason | Detail |
+|------|--------|--------|
+${scanResult.skipped.slice(0, 50).map(s => `| \`${s.file}\` | ${s.reason} | ${s.detail} |`).join('\n')}` : '✅ No files skipped'}
+${scanResult.partial.length > 0 ? `
+### Partially Analyzed Files
+
+| File | Time Spent | Budget | Rules Not Run |
+|------|------------|--------|---------------|
+${scanResult.partial.slice(0, 50).map(p => `| \`${p.file}\` | ${p.elapsedMs} ms | ${p.budgetMs} ms | ${p.skippedRules.join(', ')} |`).join('\n')}
+` : ''}
+---
+
+${aiSummary ? `
+## 🤖 AI Code Detection Analysis
+
+### Overview
+- **Total Files Analyzed:** ${aiSummary.totalFiles}
+- **AI-Generated Files:** ${aiSummary.aiGeneratedFiles} (${((aiSummary.aiGeneratedFiles / aiSummary.totalFiles) * 100).toFixed(1)}%)
+- **Human-Written Files:** ${aiSummary.humanWrittenFiles} (${((aiSummary.humanWrittenFiles / aiSummary.totalFiles) * 100).toFixed(1)}%)
+- **Mixed/Uncertain:** ${aiSummary.mixedFiles}
+
+### AI Code Metrics
+- **AI Code Percentage:** ${aiSummary.aiCodePercentage}%
+- **Detection Confidence:** ${aiSummary.confidenceScore}%
+- **Classification:** ${aiSummary.aiCodePercentage > 70 ? '🔴 HIGH - Majority AI-generated' : aiSummary.aiCodePercentage > 40 ? '🟡 MEDIUM - Significant AI code' : '🟢 LOW - Mostly human-written'}
+
+### Top AI Patterns Detected
+${aiSummary.topAIPatterns.slice(0, 5).map((p, i) => `${i + 1}. **${p.pattern.replace(/_/g, ' ').toUpperCase()}**: ${p.count} occurrences`).join('\n')}
+
+### Risk Assessment
+- 🛡️ **Security Risks:** ${aiSummary.riskAssessment.securityRisks} files
+- 🔧 **Maintenance Risks:** ${aiSummary.riskAssessment.maintenanceRisks} files
+- 📊 **Quality Risks:** ${aiSummary.riskAssessment.qualityRisks} files
+
+### AI Code Recommendations
+${aiSummary.recommendations.slice(0, 3).map((r, i) => `${i + 1}. ${r}`).join('\n')}
+
+> 💡 **Note:** Run \`/techdebt:ai-scan\` for a detailed AI code analysis report.
+
+---
+` : ''}
+
+## 📝 Appendix: Methodology
+
+This report uses industry-standard methodologies:
+
+- **SQALE Method:** Software Quality Assessment based on Lifecycle Expectations
+- **DORA Metrics:** DevOps Research and Assessment performance indicators
+- **Cyclomatic Complexity:** McCabe complexity measurement
+- **Technical Debt Ratio:** (Remediation Time / Development Time) × 100
+
+**Benchmarks based on:**
+- Industry research from 2024-2025
+- 1000+ enterprise codebases analysis
+- DORA State of DevOps reports
+
+---
+
+*Report generated by **Tech Debt Insight** v0.1.0*  
+*Timestamp: ${timestamp}*  
+*For questions or support, visit: https://github.com/arunkg/techdebt-insight*
+`;
+}
+
+export function generateAIMarkdownReport(
+    summary: AICodeSummary,
+    topAIFiles: AICodeAnalysis[],
+    topHumanFiles: AICodeAnalysis[],
+    repoPath: string
+): string {
+    const timestamp = new Date().toISOString();
+    
+    return `# 🤖 AI Code Detection Report
+**Repository**: ${repoPath}
+**Generated**: ${timestamp}
+
+---
+
+## 📊 Executive Summary
+
+### Overall Statistics
+- **Total Files Analyzed**: ${summary.totalFiles}
+- **AI-Generated Files**: ${summary.aiGeneratedFiles} (${((summary.aiGeneratedFiles / summary.totalFiles) * 100).toFixed(1)}%)
+- **Human-Written Files**: ${summary.humanWrittenFiles} (${((summary.humanWrittenFiles / summary.totalFiles) * 100).toFixed(1)}%)
+- **Mixed/Uncertain Files**: ${summary.mixedFiles} (${((summary.mixedFiles / summary.totalFiles) * 100).toFixed(1)}%)
+
+### AI Code Metrics
+- **AI Code Percentage**: ${summary.aiCodePercentage}%
+- **Detection Confidence**: ${summary.confidenceScore}%
+
+### Classification
+${summary.aiCodePercentage > 70 ? '🔴 **HIGH**: Majority of codebase appears AI-generated' :
+  summary.aiCodePercentage > 40 ? '🟡 **MEDIUM**: Significant AI-generated code detected' :
+  '🟢 **LOW**: Mostly human-written code'}
+
+---
+
+## 🎯 Top AI Patterns Detected
+
+${summary.topAIPatterns.map((p, i) => `${i + 1}. **${p.pattern.replace(/_/g, ' ').toUpperCase()}**
+   - Occurrences: ${p.count} files
+   - Impact: ${p.count > summary.totalFiles * 0.5 ? 'High' : p.count > summary.totalFiles * 0.2 ? 'Medium' : 'Low'}`).join('\n\n')}
+
+---
+
+## ⚠️ Risk Assessment
+
+### Security Risks: ${summary.riskAssessment.securityRisks} files
+${summary.riskAssessment.securityRisks > 0 ? 
+`AI-generated code may lack proper edge case handling and input validation. Review these files for:
+- Missing null/undefined checks
+- Inadequate error handling
+- Potential injection vulnerabilities
+- Unvalidated user inputs` : 
+'✅ No significant security risks detected'}
+
+### Maintenance Risks: ${summary.riskAssessment.maintenanceRisks} files
+${summary.riskAssessment.maintenanceRisks > 0 ?
+`Code maintainability concerns detected:
+- Generic variable names reducing code readability
+- Repetitive code structures
+- Lack of meaningful abstractions
+- Poor code organization` :
+'✅ Code appears maintainable'}
+
+### Quality Risks: ${summary.riskAssessment.qualityRisks} files
+${summary.riskAssessment.qualityRisks > 0 ?
+`Code quality issues found:
+- Excessive boilerplate code
+- Generic or unhelpful comments
+- Inconsistent coding patterns
+- Potential code smells` :
+'✅ Code quality looks good'}
+
+---
+
+## 🔴 Top 20 AI-Generated Files
+
+${topAIFiles.length > 0 ? topAIFiles.map((file, i) => `### ${i + 1}. \`${file.file}\`
+**AI Likelihood**: ${file.aiLikelihood}% | **Human Likelihood**: ${file.humanLikelihood}%
+
+**Detected Patterns**:
+${file.patterns.map(p => `- **${p.type}** (${p.severity}): ${p.description} [Confidence: ${p.confidence}%]`).join('\n')}
+
+**Quality Indicators**:
+- Style Consistency: ${file.indicators.styleConsistency}%
+- Comment Quality: ${file.indicators.commentQuality}%
+- Naming Patterns: ${file.indicators.namingPatterns}%
+- Code Structure: ${file.indicators.codeStructure}%
+- Error Handling: ${file.indicators.errorHandling}%
+
+**File Metrics**:
+- Total Lines: ${file.metadata.totalLines}
+- Code Lines: ${file.metadata.codeLines}
+- Comment Lines: ${file.metadata.commentLines}
+- Blank Lines: ${file.metadata.blankLines}
+
+---
+`).join('\n') : 'No files with high AI likelihood detected.'}
+
+## 🟢 Top 10 Human-Written Files
+
+${topHumanFiles.length > 0 ? topHumanFiles.map((file, i) => `${i + 1}. **\`${file.file}\`** - Human Likelihood: ${file.humanLikelihood}%`).join('\n') : 'No files with high human likelihood detected.'}
+
+---
+
+## 💡 Recommendations
+
+${summary.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n')}
+
+---
+
+## 📋 Action Items
+
+### Immediate (Week 1)
+1. Review all files with AI likelihood > 80% for security vulnerabilities
+2. Implement comprehensive test coverage for AI-generated code sections
+3. Add proper error handling and input validation
+
+### Short-term (Month 1)
+1. Refactor generic variable names and improve code readability
+2. Remove boilerplate code and improve comment quality
+3. Establish code review guidelines for AI-generated code
+4. Set up automated AI code detection in CI/CD pipeline
+
+### Long-term (Quarter 1)
+1. Create team guidelines for using AI coding assistants
+2. Implement quality gates for AI-generated code
+3. Train team on identifying and improving AI-generated code
+4. Monitor AI code percentage trends over time
+
+---
+
+## 📈 Best Practices for AI-Generated Code
+
+1. **Always Review**: Never merge AI-generated code without human review
+2. **Test Thoroughly**: AI code may miss edge cases - add comprehensive tests
+3. **Refactor**: Improve variable names, comments, and structure
+4. **Validate Security**: Check for injection vulnerabilities and proper input validation
+5. **Document Origin**: Mark AI-generated sections for future reference
+6. **Continuous Monitoring**: Track AI code percentage and quality metrics
+
+---
+
+*Report generated by Tech Debt Insight - AI Code Detection Module*
+*Timestamp: ${timestamp}*
+`;
+}
@@ -0,0 +1,10 @@
+/**
+ * Built-in Rules
+ * Every rule shipped with the scanner, in the order they run
+ */
+
+import { CODE_SMELL_RULES } from '../analyzers/codeSmells.js';
+import { SECURITY_RULES } from '../analyzers/security.js';
+import { RuleDefinition } from './registry.js';
+
+export const BUILTIN_RULES: RuleDefinition[] = [...CODE_SMELL_RULES, ...SECURITY_RULES];
@@ -0,0 +1,138 @@
+/**
+ * Rule Catalog
+ * Documentation for every rule the scanner can report: built-in, plugin and AI detection patterns
+ */
+
+import { LanguageId } from '../analyzers/language.js';
+import { RuleCategory, RuleDefinition, Severity } from './registry.js';
+import { BUILTIN_RULES } from './builtinRules.js';
+
+export type CatalogCategory = RuleCategory | 'ai_detection';
+
+export interface RuleCatalogEntry {
+    id: string;
+    title: string;
+    category: CatalogCategory;
+    source: 'builtin' | 'plugin';
+    languages: LanguageId[] | '*';
+    defaultSeverity: Severity;
+    cwe?: string;
+    owasp: string[];
+    rationale: string;
+    remediation: string;
+    effortFormula: string;
+}
+
+// AI detection patterns are reported by ai_code_scan as signals, not as debt findings
+const AI_PATTERN_ENTRIES: Array<Pick<RuleCatalogEntry, 'id' | 'title' | 'rationale' | 'remediation'>> = [
+    {
+        id: 'low_complexity_pattern',
+        title: 'Low complexity for size',
+        rationale: 'Generated code tends to be long but structurally flat compared with hand-written code of the same size.',
+        remediation: 'Review that the code handles real edge cases rather than only the happy path.'
+    },
+    {
+        id: 'high_keyword_density',
+        title: 'High keyword density',
+        rationale: 'A high share of language keywords is a statistical marker of assistant-generated code.',
+        remediation: 'No change needed on its own; use it to prioritize human review.'
+    },
+    {
+        id: 'uniform_function_length',
+        title: 'Uniform function lengths',
+        rationale: 'Functions of nearly identical length suggest templated generation.',
+        remediation: 'Check for copy-adapted logic that should share a helper.'
+    },
+    {
+        id: 'excessive_comments',
+        title: 'Excessive comments',
+        rationale: 'Assistants over-document, narrating what each line does instead of why.',
+        remediation: 'Remove comments that restate the code; keep the ones explaining intent.'
+    },
+    {
+        id: 'minimal_comments',
+        title: 'Minimal comments',
+        rationale: 'Long stretches of undocumented code are typical of inline completion tools.',
+        remediation: 'Document non-obvious decisions and public interfaces.'
+    },
+    {
+        id: 'generic_comments',
+        title: 'Generic comments',
+        rationale: 'Boilerplate phrases such as "Initialize the variable" are strong chat-assistant indicators.',
+        remediation: 'Replace generic comments with domain-specific explanations or delete them.'
+    },
+    {
+        id: 'generic_naming',
+        title: 'Generic naming',
+        rationale: 'Names like data, result and temp hide intent and are common in generated code.',
+        remediation: 'Rename variables after the domain concept they hold.'
+    },
+    {
+        id: 'perfect_indentation',
+        title: 'Perfect indentation',
+        rationale: 'Completely uniform formatting without a formatter config hints at generated code.',
+        remediation: 'No change needed; a weak signal used only in combination.'
+    },
+    {
+        id: 'boilerplate_code',
+        title: 'Boilerplate code',
+        rationale: 'Scaffold-style patterns repeated across files increase size without adding behavior.',
+        remediation: 'Consolidate the boilerplate into shared utilities.'
+    },
+    {
+        id: 'repetitive_structures',
+        title: 'Repetitive structures',
+        rationale: 'Repeated code shapes indicate copy-paste generation and future duplication debt.',
+        remediation: 'Extract the repeated structure into a function or data-driven loop.'
+    },
+    {
+        id: 'ai_signature',
+        title: 'AI tool signature',
+        rationale: 'Comments or markers left by tools such as Copilot or ChatGPT identify generated code directly.',
+        remediation: 'Review the generated section and remove leftover tool markers.'
+    }
+];
+
+/**
+ * Describe a rule's effort model when it does not document one
+ */
+function describeEffort(rule: RuleDefinition): string {
+    return typeof rule.effort === 'number'
+        ? `${rule.effort} min per finding`
+        : 'Computed per finding by the rule';
+}
+
+function toEntry(rule: RuleDefinition, source: RuleCatalogEntry['source']): RuleCatalogEntry {
+    return {
+        id: rule.id,
+        title: rule.title ?? rule.id,
+        category: rule.category,
+        source,
+        languages: rule.languages,
+        defaultSeverity: rule.defaultSeverity,
+        cwe: rule.cwe,
+        owasp: rule.owasp ?? [],
+        rationale: rule.rationale ?? '',
+        remediation: rule.remediation ?? '',
+        effortFormula: rule.effortFormula ?? describeEffort(rule)
+    };
+}
+
+/**
+ * Build the catalog of built-in rules, the given plugin rules and AI detection patterns
+ */
+export function buildRuleCatalog(pluginRules: RuleDefinition[] = []): RuleCatalogEntry[] {
+    return [
+        ...BUILTIN_RULES.map(rule => toEntry(rule, 'builtin')),
+        ...pluginRules.map(rule => toEntry(rule, 'plugin')),
+        ...AI_PATTERN_ENTRIES.map((entry): RuleCatalogEntry => ({
+            ...entry,
+            category: 'ai_detection',
+            source: 'builtin',
+            languages: '*',
+            defaultSeverity: 'info',
+            owasp: [],
+            effortFormula: 'Not counted as debt; contributes to the file\'s AI likelihood'
+        }))
+    ];
+}
@@ -0,0 +1,119 @@
+/**
+ * Rule Plugins
+ * Resolves and loads team rule modules named in the `plugins` config key
+ */
+
+import { createHash } from 'crypto';
+import { readdir, readFile, stat } from 'fs/promises';
+import { createRequire } from 'module';
+import { extname, isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { RuleDefinition, createRuleRegistry, validateRule } from './registry.js';
+import { BUILTIN_RULES } from './builtinRules.js';
+
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+// Module URL (path and content hash) -> rules, so each worker imports each plugin version once
+const loadedModules = new Map<string, Promise<RuleDefinition[]>>();
+
+// Shares Node's CommonJS module cache, which ignores URL query strings
+const require = createRequire(import.meta.url);
+
+export interface PluginModule {
+    path: string; // absolute module path
+    hash: string; // sha256 of the module source
+}
+
+export interface LoadedPlugins {
+    modules: PluginModule[]; // in load order
+    rules: RuleDefinition[];
+}
+
+/**
+ * Resolve plugin specs to module files. Specs starting with `.` or `/` are a file or a
+ * directory of modules relative to the repository; anything else is an npm package
+ * installed in the repository.
+ */
+export async function resolvePluginModules(repoPath: string, specs: string[]): Promise<string[]> {
+    const modules: string[] = [];
+    for (const spec of specs) {
+        if (spec.startsWith('.') || isAbsolute(spec)) {
+            const path = resolve(repoPath, spec);
+            let info;
+            try {
+                info = await stat(path);
+            } catch {
+                throw new Error(`Rule plugin '${spec}' not found at ${path}`);
+            }
+            if (info.isDirectory()) {
+                const files = (await readdir(path))
+                    .filter(f => MODULE_EXTENSIONS.includes(extname(f)))
+                    .sort();
+                modules.push(...files.map(f => join(path, f)));
+            } else {
+                modules.push(path);
+            }
+        } else {
+            try {
+                modules.push(createRequire(join(repoPath, 'package.json')).resolve(spec));
+            } catch (error: any) {
+                throw new Error(`Rule plugin package '${spec}' could not be resolved from ${repoPath}: ${error.message}`);
+            }
+        }
+    }
+    return modules;
+}
+
+/**
+ * Extract rule definitions from a plugin module. Accepted shapes: a default export of a
+ * rule, an array of rules or `{ rules }`, or a named `rules` export.
+ */
+function extractRules(exports: any, source: string): RuleDefinition[] {
+    const exported = exports.rules ?? exports.default?.rules ?? exports.default;
+    if (exported === undefined) {
+        throw new Error(`Rule plugin ${source} has no default export or 'rules' export`);
+    }
+    return (Array.isArray(exported) ? exported : [exported]).map(rule => validateRule(rule, source));
+}
+
+/**
+ * Import plugin modules and return their validated rules. The content hash is part of
+ * the import URL, so a long-running server picks up an edited plugin instead of the
+ * copy cached by the module loader (modules the plugin itself imports stay cached).
+ */
+export async function loadRuleModules(modules: PluginModule[]): Promise<RuleDefinition[]> {
+    const rules: RuleDefinition[] = [];
+    for (const { path, hash } of modules) {
+        const url = `${pathToFileURL(path).href}?hash=${hash}`;
+        let loading = loadedModules.get(url);
+        if (!loading) {
+            delete require.cache[path];
+            loading = import(url).then(exports => extractRules(exports, path));
+            loadedModules.set(url, loading);
+        }
+        rules.push(...await loading);
+    }
+    return rules;
+}
+
+/**
+ * Resolve and load the configured plugins. Throws when a plugin cannot be loaded,
+ * exports an invalid rule, or reuses the ID of another rule.
+ */
+export async function loadRulePlugins(repoPath: string, specs: string[]): Promise<LoadedPlugins> {
+    const modules = await hashPluginModules(await resolvePluginModules(repoPath, specs));
+    const rules = await loadRuleModules(modules);
+    createRuleRegistry([...BUILTIN_RULES, ...rules]);
+    return { modules, rules };
+}
+
+/**
+ * Hash plugin module sources, so editing a plugin re-imports it and invalidates the scan cache
+ */
+export async function hashPluginModules(paths: string[]): Promise<PluginModule[]> {
+    const modules: PluginModule[] = [];
+    for (const path of paths) {
+        modules.push({ path, hash: createHash('sha256').update(await readFile(path)).digest('hex') });
+    }
+    return modules;
+}
@@ -0,0 +1,165 @@
+/**
+ * Rule Registry
+ * Common definition for built-in and team-provided rules, and the runner that applies them to a file
+ */
+
+import { RuleConfig, isRuleEnabled, applyRuleOverrides } from '../config/config.js';
+import { LanguageId } from '../analyzers/language.js';
+import { TimeBudget, runWithinBudget } from '../analyzers/timeBudget.js';
+
+export type Severity = 'blocker' | 'critical' | 'major' | 'minor' | 'info';
+
+// Findings land in the matching ScanResult bucket (code smells or security issues)
+export type RuleCategory = 'maintainability' | 'security';
+
+export interface RuleContext {
+    content: string;
+    lines: string[];
+    filePath: string; // relative to the repository root
+    language: LanguageId;
+    settings: Record<string, unknown>; // the rule's block from .techdebtrc `rules`
+}
+
+/**
+ * What a rule's detect function reports. Severity and effort fall back to the rule's defaults.
+ */
+export interface RuleFinding {
+    line?: number;
+    message: string;
+    severity?: Severity;
+    effort?: number; // minutes to fix
+    cwe?: string;
+}
+
+/**
+ * Remediation minutes for a finding: a fixed number, or computed from the finding
+ */
+export type EffortModel = number | ((finding: RuleFinding, context: RuleContext) => number);
+
+export interface RuleDefinition {
+    id: string; // snake_case, used in issue types, config and suppressions
+    languages: LanguageId[] | '*';
+    defaultSeverity: Severity;
+    category: RuleCategory;
+    effort: EffortModel;
+    cwe?: string;
+    // Catalog metadata shown by list_rules
+    title?: string;
+    rationale?: string; // why a finding counts as debt
+    remediation?: string;
+    owasp?: string[]; // OWASP Top 10 categories, e.g. 'A03:2021 Injection'
+    effortFormula?: string; // human-readable effort model, e.g. '15 min per 10 lines'
+    detect(context: RuleContext): RuleFinding[];
+}
+
+export interface RuleRegistry {
+    register(rule: RuleDefinition): void;
+    get(id: string): RuleDefinition | undefined;
+    list(): RuleDefinition[];
+}
+
+/**
+ * A finding after defaults, effort model and configured severity/effort are applied
+ */
+export interface ResolvedFinding {
+    type: string;
+    severity: Severity;
+    line?: number;
+    message: string;
+    effort: number;
+    cwe?: string;
+}
+
+const RULE_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+const SEVERITIES: Severity[] = ['blocker', 'critical', 'major', 'minor', 'info'];
+
+/**
+ * Identity helper that gives plugin authors type checking for their rule objects
+ */
+export function defineRule(rule: RuleDefinition): RuleDefinition {
+    return rule;
+}
+
+/**
+ * Check the shape of a rule definition (plugins are untyped JavaScript)
+ */
+export function validateRule(rule: unknown, source: string): RuleDefinition {
+    const r = rule as Partial<RuleDefinition> | null;
+    const problems: string[] = [];
+    if (!r || typeof r !== 'object') {
+        throw new Error(`Invalid rule in ${source}: expected an object`);
+    }
+    if (typeof r.id !== 'string' || !RULE_ID_PATTERN.test(r.id)) problems.push('id must be a snake_case string');
+    if (r.languages !== '*' && !(Array.isArray(r.languages) && r.languages.every(l => typeof l === 'string'))) {
+        problems.push("languages must be '*' or an array of language IDs");
+    }
+    if (!SEVERITIES.includes(r.defaultSeverity as Severity)) problems.push(`defaultSeverity must be one of ${SEVERITIES.join(', ')}`);
+    if (r.category !== 'maintainability' && r.category !== 'security') problems.push("category must be 'maintainability' or 'security'");
+    if (typeof r.effort !== 'number' && typeof r.effort !== 'function') problems.push('effort must be a number of minutes or a function');
+    if (typeof r.detect !== 'function') problems.push('detect must be a function');
+    for (const key of ['cwe', 'title', 'rationale', 'remediation', 'effortFormula'] as const) {
+        if (r[key] !== undefined && typeof r[key] !== 'string') problems.push(`${key} must be a string`);
+    }
+    if (r.owasp !== undefined && !(Array.isArray(r.owasp) && r.owasp.every(t => typeof t === 'string'))) {
+        problems.push('owasp must be an array of strings');
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid rule '${r.id ?? '?'}' in ${source}: ${problems.join('; ')}`);
+    }
+    return r as RuleDefinition;
+}
+
+/**
+ * Create a registry. Rule IDs must be unique.
+ */
+export function createRuleRegistry(rules: RuleDefinition[] = []): RuleRegistry {
+    const byId = new Map<string, RuleDefinition>();
+
+    const registry: RuleRegistry = {
+        register(rule) {
+            if (byId.has(rule.id)) {
+                throw new Error(`Rule '${rule.id}' is already registered`);
+            }
+            byId.set(rule.id, rule);
+        },
+        get: (id) => byId.get(id),
+        list: () => [...byId.values()]
+    };
+
+    for (const rule of rules) {
+        registry.register(rule);
+    }
+    return registry;
+}
+
+function appliesTo(rule: RuleDefinition, language: LanguageId): boolean {
+    return rule.languages === '*' || rule.languages.includes(language);
+}
+
+/**
+ * Run the enabled rules that apply to the file's language and resolve their findings.
+ * Once `budget` expires the remaining rules are skipped and recorded on it.
+ */
+export function runRules(
+    rules: RuleDefinition[],
+    context: Omit<RuleContext, 'settings'>,
+    config: RuleConfig = {},
+    budget?: TimeBudget
+): ResolvedFinding[] {
+    const detectors = rules
+        .filter(rule => isRuleEnabled(config, rule.id) && appliesTo(rule, context.language))
+        .map((rule): [string, () => ResolvedFinding[]] => [rule.id, () => {
+            const ruleContext: RuleContext = { ...context, settings: { ...config[rule.id] } };
+            return rule.detect(ruleContext).map(finding => ({
+                type: rule.id,
+                severity: finding.severity ?? rule.defaultSeverity,
+                line: finding.line,
+                message: finding.message,
+                effort: finding.effort ?? (typeof rule.effort === 'function' ? rule.effort(finding, ruleContext) : rule.effort),
+                cwe: finding.cwe ?? rule.cwe
+            }));
+        }]);
+
+    return applyRuleOverrides(runWithinBudget(detectors, budget), config);
+}
@@ -7,6 +7,23 @@ import { createHash } from 'crypto';
 import { analyzeComplexity, ComplexityMetrics } from './analyzers/complexity.js';
 import { analyzeCodeSmells, CodeSmell } from './analyzers/codeSmells.js';
 import { analyzeSecurityIssues, SecurityIssue } from './analyzers/security.js';
+import { detectLanguage, isCommentLine, LanguageId } from './analyzers/language.js';
+import { createTimeBudget } from './analyzers/timeBudget.js';
+import { RuleDefinition, runRules } from './rules/registry.js';
+import { LineRange, isLineInRanges } from './git/diff.js';
+import { BlameInfo, IssueAgeDistribution } from './git/blame.js';
+import { ChurnSummary, FileChurn } from './git/churn.js';
+import { Hotspot } from './calculators/hotspots.js';
+import { TemporalCoupling } from './git/coupling.js';
+import { CoverageSummary } from './coverage/coverage.js';
+import { BaselineComparison } from './baseline/baseline.js';
+import { WorkspaceSummary } from './workspaces/workspaces.js';
+import { OwnerSummary } from './ownership/codeowners.js';
+import { QualityGateResult } from './gates/qualityGate.js';
+import { SkippedFile } from './discovery/skipDetection.js';
+import { fingerprintFindings, findFunctionStarts } from './fingerprint.js';
+import { parseSuppressions, applySuppressions, SuppressionDirective } from './suppressions.js';
+import { RuleConfig, CostModel } from './config/config.js';
 import {
     calculateBusinessImpact,
     calculateDebtRatio,
@@ -35,8 +52,10 @@ export interface ScanResult {
         quality: {
             codeSmells: number;
             securityIssues: number;
-            testCoverage: number;
+            testCoverage: number; // line coverage from coverage reports, otherwise estimated from test file counts
         };
+        issueAge?: IssueAgeDistribution; // present when issues could be blamed
+        churn?: ChurnSummary; // present when git history is available
     };
     businessImpact: BusinessImpact;
     issues: Array<{
@@ -49,58 +68,208 @@ export interface ScanResult {
         message: string;
         effort: number;
         businessImpact: string;
+        baselineStatus?: 'new' | 'existing';
+        owners?: string[]; // from CODEOWNERS, when the repository has one
+        blame?: BlameInfo; // last commit to modify the issue's line (git blame)
     }>;
     fileMetrics: Array<{
         file: string;
+        language: LanguageId;
         lines: number;
         complexity: ComplexityMetrics;
         issues: number;
         debtMinutes: number;
+        owners?: string[]; // from CODEOWNERS, when the repository has one
+        churn?: FileChurn; // changes within the churn window (git log), when in a git repository
     }>;
     trends: {
-        worstFiles: Array<{ file: string; score: number; reason: string }>;
+        worstFiles: Array<{ file: string; score: number; reason: string }>; // in hotspot order when git history is available
         quickWins: Array<{ file: string; effort: number; impact: string }>;
         criticalPath: string[];
     };
+    suppressed: Array<{
+        id: string;
+        type: string;
+        severity: string;
+        category: string;
+        file: string;
+        line?: number;
+        message: string;
+        effort: number;
+        justification: string;
+        directive: 'next-line' | 'file';
+        directiveLine: number;
+    }>;
+    skipped: SkippedFile[]; // files left out of the analysis (generated, minified, binary, too large, timed out)
+    partial: Array<PartialScan & { file: string }>; // files whose analysis ran out of time budget
+    pullRequest?: PullRequestDelta;
+    baseline?: BaselineComparison;
+    hotspots?: Hotspot[]; // files ranked by change frequency × complexity, when git history is available
+    temporalCoupling?: TemporalCoupling; // files that change together, when git history is available
+    coverage?: CoverageSummary; // present when the repository has coverage reports (lcov, Cobertura, JaCoCo, ...)
+    workspaces?: WorkspaceSummary[]; // per-package rollups when the repository is a monorepo
+    ownership?: OwnerSummary[]; // per-owner rollups when the repository has a CODEOWNERS file
+    qualityGate?: QualityGateResult; // present when .techdebtrc declares a qualityGate
 }
 
 /**
- * Scan a single file for technical debt
+ * Debt introduced by a pull request (diff-scoped scan against a base ref)
  */
-export async function scanFile(
-    content: string,
-    filePath: string
-): Promise<{
+export interface PullRequestDelta {
+    baseRef: string;
+    mergeBase: string;
+    changedFiles: number;
+    baseDebtMinutes: number; // debt of the changed files at the merge base
+    headDebtMinutes: number; // debt of the changed files at HEAD
+    debtDeltaMinutes: number; // headDebtMinutes - baseDebtMinutes
+}
+
+/**
+ * A finding silenced by an inline techdebt-ignore directive
+ */
+export interface SuppressedFinding {
+    type: string;
+    severity: string;
+    category: 'maintainability' | 'security';
+    line?: number;
+    message: string;
+    effort: number;
+    fingerprint?: string;
+    justification: string;
+    directive: 'next-line' | 'file';
+    directiveLine: number;
+}
+
+/**
+ * Diagnostics for a file whose analysis stopped early because its time budget ran out
+ */
+export interface PartialScan {
+    elapsedMs: number;
+    budgetMs: number;
+    skippedRules: string[];
+}
+
+export interface ScanFileOptions {
+    timeBudgetMs?: number; // stop running further rules after this long (default: unlimited)
+    customRules?: RuleDefinition[]; // plugin rules, run after the built-in ones
+}
+
+/**
+ * Per-file analysis output produced by scanFile
+ */
+export interface FileScanResult {
+    language: LanguageId;
     complexity: ComplexityMetrics;
     codeSmells: CodeSmell[];
     securityIssues: SecurityIssue[];
+    suppressed: SuppressedFinding[];
     lines: number;
     commentLines: number;
-}> {
+    partial?: PartialScan;
+}
+
+/**
+ * Scan a single file for technical debt
+ */
+export async function scanFile(
+    content: string,
+    filePath: string,
+    rules: RuleConfig = {},
+    options: ScanFileOptions = {}
+): Promise<FileScanResult> {
+    const budget = createTimeBudget(options.timeBudgetMs);
     const lines = content.split('\n');
-    const commentLines = lines.filter(l => 
-        l.trim().startsWith('//') || 
-        l.trim().startsWith('#') || 
-        l.trim().startsWith('*')
-    ).length;
+    const language = detectLanguage(filePath, content);
+    const commentLines = lines.filter(l => isCommentLine(l, language)).length;
     
-    const complexity = analyzeComplexity(content, filePath);
-    const codeSmells = analyzeCodeSmells(content, filePath);
-    const securityIssues = analyzeSecurityIssues(content);
+    const complexity = analyzeComplexity(content, filePath, language);
+    const customRules = options.customRules ?? [];
+    const runCustomRules = (category: RuleDefinition['category']) =>
+        runRules(customRules.filter(rule => rule.category === category), { content, lines, filePath, language }, rules, budget);
+    const directives = parseSuppressions(lines, language);
+    const functionStarts = findFunctionStarts(lines);
+    const smells = applySuppressions(fingerprintFindings([
+        ...analyzeCodeSmells(content, filePath, rules, language, budget),
+        ...runCustomRules('maintainability')
+    ], lines, functionStarts), directives, lines);
+    const security = applySuppressions(fingerprintFindings([
+        ...analyzeSecurityIssues(content, rules, language, budget),
+        ...runCustomRules('security')
+    ], lines, functionStarts), directives, lines);
     
-    return {
+    const toSuppressed = (category: SuppressedFinding['category']) =>
+        ({ finding, directive }: { finding: CodeSmell | SecurityIssue; directive: SuppressionDirective }): SuppressedFinding => ({
+            type: finding.type,
+            severity: finding.severity,
+            category,
+            line: finding.line,
+            message: finding.message,
+            effort: finding.effort,
+            fingerprint: finding.fingerprint,
+            justification: directive.reason,
+            directive: directive.kind,
+            directiveLine: directive.line
+        });
+    
+    const result: FileScanResult = {
+        language,
         complexity,
-        codeSmells,
-        securityIssues,
+        codeSmells: smells.kept,
+        securityIssues: security.kept,
+        suppressed: [
+            ...smells.suppressed.map(toSuppressed('maintainability')),
+            ...security.suppressed.map(toSuppressed('security'))
+        ],
         lines: lines.length,
         commentLines
     };
+    
+    if (budget.skippedRules.length > 0) {
+        result.partial = {
+            elapsedMs: budget.elapsedMs(),
+            budgetMs: options.timeBudgetMs!,
+            skippedRules: budget.skippedRules
+        };
+    }
+    return result;
+}
+
+/**
+ * Total remediation effort of a file's findings, in minutes
+ */
+export function sumFileDebt(result: FileScanResult): number {
+    return result.codeSmells.reduce((sum, s) => sum + s.effort, 0) +
+        result.securityIssues.reduce((sum, i) => sum + i.effort, 0);
+}
+
+/**
+ * Restrict a file's findings to the lines changed by a pull request.
+ * Line-level findings are kept when they fall in a changed range. File-level findings
+ * (no line) are kept only when the base version did not already report that type.
+ */
+export function scopeToChangedLines(
+    result: FileScanResult,
+    ranges: LineRange[],
+    baseResult?: FileScanResult
+): FileScanResult {
+    const baseTypes = new Set([
+        ...(baseResult?.codeSmells ?? []).map(s => s.type),
+        ...(baseResult?.securityIssues ?? []).map(i => i.type)
+    ]);
+    const isNew = (finding: { type: string; line?: number }) =>
+        finding.line !== undefined ? isLineInRanges(finding.line, ranges) : !baseTypes.has(finding.type);
+
+    return {
+        ...result,
+        codeSmells: result.codeSmells.filter(isNew),
+        securityIssues: result.securityIssues.filter(isNew)
+    };
 }
 
 /**
  * Calculate file quality score (0-100, higher is better)
  */
-function calculateFileScore(
+export function calculateFileScore(
     complexity: ComplexityMetrics,
     issues: number,
     lines: number
@@ -123,10 +292,12 @@ function calculateFileScore(
 
 /**
  * Generate issue ID
+ * Uses the finding's content fingerprint when available, so IDs survive line shifts;
+ * falls back to the line number for findings without one.
  */
-function generateIssueId(type: string, file: string, line?: number): string {
+export function generateIssueId(type: string, file: string, line?: number, fingerprint?: string): string {
     return createHash('sha256')
-        .update(`${type}:${file}:${line || 0}`)
+        .update(fingerprint ? `${type}:${file}:${fingerprint}` : `${type}:${file}:${line || 0}`)
         .digest('hex')
         .substring(0, 8);
 }
@@ -149,18 +320,14 @@ function mapSeverityToBusinessImpact(severity: string): string {
  * Aggregate scan results and calculate metrics
  */
 export function aggregateResults(
-    fileResults: Array<{
-        file: string;
-        complexity: ComplexityMetrics;
-        codeSmells: CodeSmell[];
-        securityIssues: SecurityIssue[];
-        lines: number;
-        commentLines: number;
-    }>,
-    testCoverage: number = 0
+    fileResults: Array<FileScanResult & { file: string }>,
+    testCoverage: number = 0,
+    costModel: Partial<CostModel> = {}
 ): ScanResult {
     const allIssues: any[] = [];
     const fileMetrics: any[] = [];
+    const suppressed: ScanResult['suppressed'] = [];
+    const partial: ScanResult['partial'] = [];
     
     let totalLines = 0;
     let totalCommentLines = 0;
@@ -185,7 +352,7 @@ export function aggregateResults(
         // Process code smells
         for (const smell of result.codeSmells) {
             const issue = {
-                id: generateIssueId(smell.type, result.file, smell.line),
+                id: generateIssueId(smell.type, result.file, smell.line, smell.fingerprint),
                 type: smell.type,
                 severity: smell.severity,
                 category: 'maintainability',
@@ -202,7 +369,7 @@ export function aggregateResults(
         // Process security issues
         for (const secIssue of result.securityIssues) {
             const issue = {
-                id: generateIssueId(secIssue.type, result.file, secIssue.line),
+                id: generateIssueId(secIssue.type, result.file, secIssue.line, secIssue.fingerprint),
                 type: secIssue.type,
                 severity: secIssue.severity,
                 category: 'security',
@@ -217,10 +384,32 @@ export function aggregateResults(
             fileDebt += secIssue.effort;
         }
         
+        // Suppressed findings are kept out of the totals but listed for audit
+        for (const finding of result.suppressed) {
+            suppressed.push({
+                id: generateIssueId(finding.type, result.file, finding.line, finding.fingerprint),
+                type: finding.type,
+                severity: finding.severity,
+                category: finding.category,
+                file: result.file,
+                line: finding.line,
+                message: finding.message,
+                effort: finding.effort,
+                justification: finding.justification,
+                directive: finding.directive,
+                directiveLine: finding.directiveLine
+            });
+        }
+        
         totalDebtMinutes += fileDebt;
         
+        if (result.partial) {
+            partial.push({ file: result.file, ...result.partial });
+        }
+        
         fileMetrics.push({
             file: result.file,
+            language: result.language,
             lines: result.lines,
             complexity: result.complexity,
             issues: result.codeSmells.length + result.securityIssues.length,
@@ -233,7 +422,7 @@ export function aggregateResults(
     const avgCognitive = fileResults.length > 0 ? totalCognitive / fileResults.length : 0;
     const commentRatio = totalLines > 0 ? totalCommentLines / totalLines : 0;
     
-    const debtRatio = calculateDebtRatio(totalDebtMinutes, totalLines);
+    const debtRatio = calculateDebtRatio(totalDebtMinutes, totalLines, costModel.minutesPerLine);
     const sqaleRating = calculateSQALERating(debtRatio);
     const maintainabilityIndex = calculateMaintainabilityIndex(
         totalLines,
@@ -255,7 +444,8 @@ export function aggregateResults(
         allIssues,
         totalCyclomatic,
         codeSmells,
-        testCoverage
+        testCoverage,
+        costModel
     );
     
     // Identify worst files
@@ -317,6 +507,9 @@ export function aggregateResults(
             worstFiles,
             quickWins,
             criticalPath
-        }
+        },
+        suppressed,
+        skipped: [],
+        partial
     };
 }
@@ -0,0 +1,153 @@
+/**
+ * Inline Suppression Directives
+ * Parses techdebt-ignore comments and filters the findings they silence
+ *
+ * Directives go in a comment using the file's own syntax (// or #, or on the opening line of
+ * a block comment), either on a line of their own or after code, for example:
+ *   techdebt-ignore-next-line hardcoded_secret -- test fixture, not a real key
+ *   techdebt-ignore-next-line magic_number,deep_nesting -- lookup table
+ *   techdebt-ignore-file -- generated from schema
+ * Omitting the rule list suppresses every rule for that line (or file). Text that only looks
+ * like a directive (inside a string literal, or after another language's comment prefix) is ignored.
+ */
+
+import { getLanguageInfo, LanguageId } from './analyzers/language.js';
+
+export interface SuppressionDirective {
+    kind: 'next-line' | 'file';
+    line: number; // 1-based line of the directive comment
+    rules: string[]; // empty = all rules
+    reason: string;
+}
+
+const DIRECTIVE_PATTERN = /^\s*techdebt-ignore-(next-line|file)\b(.*)$/;
+
+const QUOTES = ['"', "'", '`'];
+
+/**
+ * Index of the quote closing the string literal that opens at `start`, or -1 if it is not closed on this line
+ */
+function closingQuote(line: string, start: number): number {
+    for (let i = start + 1; i < line.length; i++) {
+        if (line[i] === '\\') {
+            i++;
+        } else if (line[i] === line[start]) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Match a directive in the comments of a line. Comment tokens inside string literals are
+ * skipped; a quote that is not closed on the line (e.g. a Rust lifetime) does not open a string.
+ */
+function matchDirective(line: string, lineTokens: string[], blockComment?: [string, string]): RegExpMatchArray | null {
+    for (let i = 0; i < line.length; i++) {
+        if (QUOTES.includes(line[i])) {
+            const end = closingQuote(line, i);
+            if (end !== -1) {
+                i = end;
+                continue;
+            }
+        }
+
+        const lineToken = lineTokens.find(token => line.startsWith(token, i));
+        if (lineToken) {
+            return line.substring(i + lineToken.length).match(DIRECTIVE_PATTERN);
+        }
+        if (blockComment && line.startsWith(blockComment[0], i)) {
+            const body = line.substring(i + blockComment[0].length);
+            const match = body.match(DIRECTIVE_PATTERN);
+            if (match) return match;
+            // Keep looking after a block comment that closes on this line
+            const close = body.indexOf(blockComment[1]);
+            if (close === -1) return null;
+            i += blockComment[0].length + close + blockComment[1].length - 1;
+        }
+    }
+    return null;
+}
+
+/**
+ * Parse all suppression directives in a file, using the comment syntax of its language
+ */
+export function parseSuppressions(lines: string[], language: LanguageId): SuppressionDirective[] {
+    const directives: SuppressionDirective[] = [];
+    const { lineComments, blockComment } = getLanguageInfo(language);
+
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].includes('techdebt-ignore-')) continue;
+        const match = matchDirective(lines[i], lineComments, blockComment);
+        if (!match) continue;
+
+        // Drop a block comment terminator, then split "rules -- reason"
+        const rest = match[2].replace(/\s*\*\/\s*$/, '').trim();
+        const separator = rest.search(/(^|\s)--(\s|$)/);
+        const rulePart = separator === -1 ? rest : rest.substring(0, separator);
+        const reason = separator === -1 ? '' : rest.substring(separator).replace(/^\s*--/, '').trim();
+
+        directives.push({
+            kind: match[1] as 'next-line' | 'file',
+            line: i + 1,
+            rules: rulePart.split(/[\s,]+/).map(r => r.trim().toLowerCase()).filter(Boolean),
+            reason
+        });
+    }
+
+    return directives;
+}
+
+function coversRule(directive: SuppressionDirective, type: string): boolean {
+    return directive.rules.length === 0 || directive.rules.includes(type.toLowerCase());
+}
+
+/**
+ * Find the directive that suppresses a finding, if any.
+ * A next-line directive applies to the first non-directive line below it.
+ */
+export function findSuppression(
+    directives: SuppressionDirective[],
+    lines: string[],
+    finding: { type: string; line?: number }
+): SuppressionDirective | undefined {
+    for (const directive of directives) {
+        if (!coversRule(directive, finding.type)) continue;
+        if (directive.kind === 'file') return directive;
+
+        if (finding.line !== undefined) {
+            let target = directive.line + 1;
+            // Stacked directives all target the same code line
+            while (target <= lines.length && directives.some(d => d.kind === 'next-line' && d.line === target)) {
+                target++;
+            }
+            if (finding.line === target) return directive;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Split findings into kept and suppressed
+ */
+export function applySuppressions<T extends { type: string; line?: number }>(
+    findings: T[],
+    directives: SuppressionDirective[],
+    lines: string[]
+): { kept: T[]; suppressed: Array<{ finding: T; directive: SuppressionDirective }> } {
+    if (directives.length === 0) {
+        return { kept: findings, suppressed: [] };
+    }
+
+    const kept: T[] = [];
+    const suppressed: Array<{ finding: T; directive: SuppressionDirective }> = [];
+    for (const finding of findings) {
+        const directive = findSuppression(directives, lines, finding);
+        if (directive) {
+            suppressed.push({ finding, directive });
+        } else {
+            kept.push(finding);
+        }
+    }
+    return { kept, suppressed };
+}
@@ -0,0 +1,132 @@
+/**
+ * AI Code Scan
+ * Shared implementation of ai_code_scan: AI-generated code detection with a saved Markdown report
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, relative } from 'path';
+import { analyzeAICode, generateAISummary, AICodeAnalysis } from '../analyzers/aiCodeDetectorV2.js';
+import { ProgressReporter } from '../mcp/progress.js';
+import { loadConfig } from '../config/config.js';
+import { generateAIMarkdownReport } from '../reports/markdownReport.js';
+import { AI_SCAN_GLOBS, findFiles } from './files.js';
+
+export interface AIScanOptions {
+    repoPath: string;
+    includeGlobs?: string[]; // defaults to `include` from .techdebtrc, then AI_SCAN_GLOBS
+    reportDir?: string; // where the report is written (default: the repository; created if missing)
+}
+
+/**
+ * Detect AI-generated code across the repository and save the AI analysis report
+ */
+export async function runAICodeScan(options: AIScanOptions, progress: ProgressReporter) {
+    const { repoPath, includeGlobs, reportDir = repoPath } = options;
+    
+    console.error(`[AI Scan] Starting AI code detection in: ${repoPath}`);
+    const { config } = await loadConfig(repoPath);
+    
+    // Find all files
+    const files = await findFiles(
+        repoPath,
+        includeGlobs ?? config.include ?? AI_SCAN_GLOBS,
+        config.exclude
+    );
+    
+    console.error(`[AI Scan] Found ${files.length} files to analyze`);
+    
+    // One step per file, then the summary report
+    const totalSteps = files.length + 1;
+    await progress.report(0, totalSteps, `Analyzing ${files.length} files`, true);
+    
+    // Analyze each file
+    const analyses: AICodeAnalysis[] = [];
+    
+    for (const [index, file] of files.entries()) {
+        progress.throwIfCancelled();
+        try {
+            const content = await readFile(file, 'utf-8');
+            const relativePath = relative(repoPath, file);
+            const analysis = analyzeAICode(content, relativePath);
+            analyses.push(analysis);
+        } catch (error: any) {
+            console.error(`[AI Scan] Error analyzing ${file}: ${error.message}`);
+        }
+        await progress.report(index + 1, totalSteps, `Analyzed ${index + 1}/${files.length} files`);
+    }
+    
+    progress.throwIfCancelled();
+    await progress.report(totalSteps, totalSteps, 'Writing AI analysis report', true);
+    
+    // Generate summary
+    const summary = generateAISummary(analyses);
+    
+    // Sort files by AI likelihood
+    const topAIFiles = analyses
+        .filter(a => a.aiLikelihood > 50)
+        .sort((a, b) => b.aiLikelihood - a.aiLikelihood)
+        .slice(0, 20);
+    
+    const topHumanFiles = analyses
+        .filter(a => a.humanLikelihood > 70)
+        .sort((a, b) => b.humanLikelihood - a.humanLikelihood)
+        .slice(0, 10);
+    
+    // Generate markdown report
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+    const reportPath = join(reportDir, `ai-code-analysis-${timestamp}.md`);
+    
+    const markdownReport = generateAIMarkdownReport(summary, topAIFiles, topHumanFiles, repoPath);
+    
+    try {
+        await mkdir(reportDir, { recursive: true });
+        await writeFile(reportPath, markdownReport, 'utf-8');
+        console.error(`[AI Scan] ✅ AI Analysis Report saved to: ${reportPath}`);
+    } catch (error: any) {
+        console.error(`[AI Scan] ❌ Failed to save report: ${error.message}`);
+    }
+    
+    // Generate executive summary for terminal
+    const executiveSummary = `
+# 🤖 AI Code Detection Summary
+
+## Overview
+- **Total Files Analyzed**: ${summary.totalFiles}
+- **AI-Generated Files**: ${summary.aiGeneratedFiles} (${((summary.aiGeneratedFiles / summary.totalFiles) * 100).toFixed(1)}%)
+- **Human-Written Files**: ${summary.humanWrittenFiles} (${((summary.humanWrittenFiles / summary.totalFiles) * 100).toFixed(1)}%)
+- **Mixed/Uncertain**: ${summary.mixedFiles}
+
+## AI Code Percentage: ${summary.aiCodePercentage}%
+**Confidence Score**: ${summary.confidenceScore}%
+
+## Top AI Patterns Detected
+${summary.topAIPatterns.map((p, i) => `${i + 1}. **${p.pattern}**: ${p.count} occurrences`).join('\n')}
+
+## Risk Assessment
+- 🛡️ **Security Risks**: ${summary.riskAssessment.securityRisks} files
+- 🔧 **Maintenance Risks**: ${summary.riskAssessment.maintenanceRisks} files
+- 📊 **Quality Risks**: ${summary.riskAssessment.qualityRisks} files
+
+## Recommendations
+${summary.recommendations.map((r, i) => `${i + 1}. ${r}`).join('\n')}
+
+---
+📄 **Full Report**: \`${reportPath}\`
+`;
+    
+    return {
+        summary,
+        topAIFiles: topAIFiles.map(f => ({
+            file: f.file,
+            aiLikelihood: f.aiLikelihood,
+            patterns: f.patterns.length,
+            topPatterns: f.patterns.slice(0, 3).map(p => p.type)
+        })),
+        topHumanFiles: topHumanFiles.map(f => ({
+            file: f.file,
+            humanLikelihood: f.humanLikelihood
+        })),
+        reportPath,
+        executiveSummary
+    };
+}
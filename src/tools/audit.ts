@@ -0,0 +1,179 @@
+/**
+ * Dependency Audit
+ * Shared implementation of dep_audit: outdated packages and known vulnerabilities via npm and pip-audit
+ */
+
+import { stat } from 'fs/promises';
+import { join } from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+export type DependencyAudit = Awaited<ReturnType<typeof runDependencyAudit>>;
+
+/**
+ * Audit the dependencies of a repository (package.json and requirements.txt)
+ */
+export async function runDependencyAudit(repoPath: string) {
+    const warnings: string[] = [];
+    const vulnerabilities: any[] = [];
+    const outdated: any[] = [];
+    
+    let npmData = null;
+    let pipData = null;
+    
+    // Check for package.json (Node.js)
+    try {
+        await stat(join(repoPath, 'package.json'));
+        
+        // Run npm outdated
+        try {
+            const { stdout } = await execAsync('npm outdated --json', { cwd: repoPath });
+            npmData = JSON.parse(stdout);
+            
+            Object.entries(npmData).forEach(([pkg, data]: [string, any]) => {
+                outdated.push({
+                    package: pkg,
+                    current: data.current,
+                    wanted: data.wanted,
+                    latest: data.latest,
+                    type: data.type,
+                    ecosystem: 'npm'
+                });
+            });
+        } catch (error: any) {
+            if (error.stdout) {
+                npmData = JSON.parse(error.stdout);
+                Object.entries(npmData).forEach(([pkg, data]: [string, any]) => {
+                    outdated.push({
+                        package: pkg,
+                        current: data.current,
+                        wanted: data.wanted,
+                        latest: data.latest,
+                        type: data.type,
+                        ecosystem: 'npm'
+                    });
+                });
+            }
+        }
+        
+        // Run npm audit
+        try {
+            const { stdout } = await execAsync('npm audit --json', { cwd: repoPath });
+            const auditData = JSON.parse(stdout);
+            
+            if (auditData.vulnerabilities) {
+                Object.entries(auditData.vulnerabilities).forEach(([pkg, vuln]: [string, any]) => {
+                    vulnerabilities.push({
+                        package: pkg,
+                        severity: vuln.severity,
+                        via: vuln.via,
+                        ecosystem: 'npm',
+                        fixAvailable: vuln.fixAvailable
+                    });
+                });
+            }
+        } catch (error: any) {
+            if (error.stdout) {
+                const auditData = JSON.parse(error.stdout);
+                if (auditData.vulnerabilities) {
+                    Object.entries(auditData.vulnerabilities).forEach(([pkg, vuln]: [string, any]) => {
+                        vulnerabilities.push({
+                            package: pkg,
+                            severity: vuln.severity,
+                            via: vuln.via,
+                            ecosystem: 'npm',
+                            fixAvailable: vuln.fixAvailable
+                        });
+                    });
+                }
+            }
+        }
+    } catch {
+        // No package.json
+    }
+    
+    // Check for requirements.txt (Python)
+    try {
+        await stat(join(repoPath, 'requirements.txt'));
+        
+        try {
+            const { stdout } = await execAsync('pip-audit -r requirements.txt --format json', { cwd: repoPath });
+            pipData = JSON.parse(stdout);
+            
+            if (pipData.dependencies) {
+                pipData.dependencies.forEach((dep: any) => {
+                    if (dep.vulns && dep.vulns.length > 0) {
+                        dep.vulns.forEach((vuln: any) => {
+                            vulnerabilities.push({
+                                package: dep.name,
+                                version: dep.version,
+                                severity: vuln.severity || 'unknown',
+                                description: vuln.description,
+                                ecosystem: 'pip',
+                                cve: vuln.id
+                            });
+                        });
+                    }
+                });
+            }
+        } catch (error: any) {
+            warnings.push('pip-audit not available. Install with: pip install pip-audit');
+        }
+    } catch {
+        // No requirements.txt
+    }
+    
+    // Calculate summary
+    const criticalVulns = vulnerabilities.filter(v => 
+        v.severity === 'critical' || v.severity === 'high'
+    ).length;
+    
+    const estimatedMinutes = (vulnerabilities.length * 30) + (outdated.length * 15);
+    const estimatedTime = estimatedMinutes < 60 ? 
+        `${estimatedMinutes} minutes` : 
+        `${(estimatedMinutes / 60).toFixed(1)} hours`;
+    
+    return {
+        npm: npmData,
+        pip: pipData,
+        vulnerabilities,
+        outdated,
+        warnings,
+        summary: {
+            totalVulnerabilities: vulnerabilities.length,
+            criticalVulnerabilities: criticalVulns,
+            outdatedPackages: outdated.length,
+            estimatedFixTime: estimatedTime
+        }
+    };
+}
+
+/**
+ * Format an audit as a Markdown summary for terminal display
+ */
+export function formatDependencyAudit(audit: DependencyAudit): string {
+    return `# 📦 Dependency Audit
+
+- **Vulnerabilities:** ${audit.summary.totalVulnerabilities} (${audit.summary.criticalVulnerabilities} critical/high)
+- **Outdated Packages:** ${audit.summary.outdatedPackages}
+- **Estimated Fix Time:** ${audit.summary.estimatedFixTime}
+
+## 🛡️ Vulnerabilities
+
+${audit.vulnerabilities.length > 0 ?
+    audit.vulnerabilities.map((v: any, i: number) =>
+        `${i + 1}. **${v.package}** (${v.severity}) - ${v.ecosystem}${v.cve ? ` - ${v.cve}` : ''}`
+    ).join('\n') :
+    'No vulnerabilities detected ✅'
+}
+
+## 📦 Outdated Dependencies
+
+${audit.outdated.length > 0 ?
+    audit.outdated.map((d: any, i: number) => `${i + 1}. **${d.package}**: ${d.current} → ${d.latest}`).join('\n') :
+    'All dependencies are up to date ✅'
+}
+${audit.warnings.length > 0 ? `\n## ⚠️ Warnings\n\n${audit.warnings.map((w: string) => `- ${w}`).join('\n')}\n` : ''}`;
+}
@@ -0,0 +1,40 @@
+/**
+ * Tool File Helpers
+ * File discovery and test coverage estimation shared by the MCP tools and the CLI
+ */
+
+import { discoverFiles } from '../discovery/fileDiscovery.js';
+
+// Default scan patterns when neither the tool input nor .techdebtrc sets `include`
+export const DEFAULT_INCLUDE_GLOBS = ['**/*.{js,mjs,cjs,ts,mts,cts,jsx,tsx,py,pyw,java,go,rs}'];
+
+// AI detection covers more languages than the debt analyzers
+export const AI_SCAN_GLOBS = ['**/*.{js,mjs,cjs,ts,mts,cts,jsx,tsx,py,pyw,java,go,rs,c,cpp,cs,php,rb,swift,kt}'];
+
+// All tools discover files here so they share the same ignore rules (.gitignore, .techdebtignore, ...)
+export async function findFiles(dir: string, patterns: string[], exclude: string[] = []): Promise<string[]> {
+    return discoverFiles(dir, patterns, { exclude });
+}
+
+export async function findTestCoverageFiles(repoPath: string, exclude: string[] = []): Promise<{ allFiles: string[]; testFiles: string[] }> {
+    const allFiles = await findFiles(repoPath, DEFAULT_INCLUDE_GLOBS, exclude);
+    const testFiles = await findFiles(repoPath, [
+        '**/test/**/*',
+        '**/__tests__/**/*',
+        '**/*.{spec,test}.{js,mjs,cjs,ts,mts,cts,jsx,tsx,py}'
+    ], exclude);
+    return { allFiles, testFiles };
+}
+
+// Fallback estimate (test files per source file) used when the repository has no coverage report
+export function calculateTestCoverage(allFiles: string[], testFiles: string[]): number {
+    const srcFiles = allFiles.filter(f => 
+        !f.includes('/test/') && 
+        !f.includes('/__tests__/') &&
+        !f.endsWith('.test.') && 
+        !f.endsWith('.spec.')
+    );
+    
+    if (srcFiles.length === 0) return 0;
+    return (testFiles.length / srcFiles.length) * 100;
+}
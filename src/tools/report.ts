@@ -0,0 +1,288 @@
+/**
+ * Executive Report
+ * Shared implementation of generate_report: CTO-level Markdown and PDF reports from scan and audit results
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ScanResult } from '../scanner.js';
+import { calculateEnterpriseMetrics } from '../calculators/enterpriseMetrics.js';
+import { analyzeAICode, generateAISummary, AICodeAnalysis } from '../analyzers/aiCodeDetectorV2.js';
+import { generateExecutivePDF } from '../reports/pdfGenerator.js';
+import { ProgressReporter } from '../mcp/progress.js';
+import { loadConfig } from '../config/config.js';
+import { formatOwnershipTable, formatCoverageSource } from '../reports/markdownReport.js';
+import { DependencyAudit } from './audit.js';
+import { AI_SCAN_GLOBS, findFiles } from './files.js';
+
+export interface ReportOptions {
+    scan: ScanResult; // scan_repo JSON
+    audit: DependencyAudit; // dep_audit JSON
+    repoPath: string;
+    projectName: string;
+    reportDir?: string; // where the reports are written (default: the repository; created if missing)
+}
+
+/**
+ * Generate the CTO report: runs AI code detection, then writes the Markdown and PDF reports
+ */
+export async function generateCtoReport(options: ReportOptions, progress: ProgressReporter) {
+    const { scan, audit, repoPath, projectName, reportDir = repoPath } = options;
+    
+    // Run AI code detection
+    console.error('[TechDebt] 🤖 Running AI code detection...');
+    const { config } = await loadConfig(repoPath);
+    const files = await findFiles(repoPath, AI_SCAN_GLOBS, config.exclude);
+    
+    // One step per file for AI detection, then the markdown and PDF reports
+    const totalSteps = files.length + 2;
+    await progress.report(0, totalSteps, `Running AI code detection on ${files.length} files`, true);
+    
+    const aiAnalyses: AICodeAnalysis[] = [];
+    for (const [index, file] of files.entries()) {
+        progress.throwIfCancelled();
+        try {
+            const content = await readFile(file, 'utf-8');
+            const analysis = analyzeAICode(content, file);
+            aiAnalyses.push(analysis);
+        } catch (error) {
+            // Skip files that can't be read
+        }
+        await progress.report(index + 1, totalSteps, `AI detection ${index + 1}/${files.length} files`);
+    }
+    
+    progress.throwIfCancelled();
+    const aiSummary = generateAISummary(aiAnalyses);
+    console.error(`[TechDebt] ✅ AI Detection: ${aiSummary.aiCodePercentage}% AI-generated (${aiSummary.confidenceScore}% confidence)`);
+    
+    // Determine overall health
+    let overallHealth = 'Excellent';
+    if (scan.summary.technicalDebt.sqaleRating === 'E' || scan.summary.technicalDebt.sqaleRating === 'D') {
+        overallHealth = 'Critical';
+    } else if (scan.summary.technicalDebt.sqaleRating === 'C') {
+        overallHealth = 'Needs Attention';
+    } else if (scan.summary.technicalDebt.sqaleRating === 'B') {
+        overallHealth = 'Good';
+    }
+    
+    // Generate critical actions
+    const criticalActions = [];
+    if (audit.summary.criticalVulnerabilities > 0) {
+        criticalActions.push(`🚨 Fix ${audit.summary.criticalVulnerabilities} critical security vulnerabilities immediately`);
+    }
+    if (scan.summary.criticalIssues > 10) {
+        criticalActions.push(`⚠️ Address ${scan.summary.criticalIssues} critical code quality issues`);
+    }
+    if (scan.summary.quality.testCoverage < 60) {
+        criticalActions.push(`🧪 Increase test coverage from ${scan.summary.quality.testCoverage.toFixed(1)}% to at least 80%`);
+    }
+    if (scan.summary.technicalDebt.debtRatio > 20) {
+        criticalActions.push(`💰 Reduce technical debt ratio from ${scan.summary.technicalDebt.debtRatio.toFixed(1)}% to below 10%`);
+    }
+    
+    // Calculate ROI
+    const monthlyCost = scan.businessImpact.financialCost;
+    const productivityGain = scan.summary.technicalDebt.debtRatio > 20 ? '25-40%' : '10-20%';
+    const roi = `Fixing technical debt can improve development velocity by ${productivityGain}, reducing monthly costs by $${(monthlyCost * 0.3).toFixed(0)}-$${(monthlyCost * 0.5).toFixed(0)}`;
+    
+    // Generate markdown report
+    const report = `# 📊 Technical Debt Analysis Report
+## ${projectName}
+
+---
+
+## 🎯 Executive Summary
+
+**Overall Health:** ${overallHealth} (SQALE Rating: ${scan.summary.technicalDebt.sqaleRating})
+**Maintainability Index:** ${scan.summary.technicalDebt.maintainabilityIndex.toFixed(1)}/100
+**Risk Score:** ${scan.businessImpact.riskScore}/100
+
+### 💰 Financial Impact
+- **Estimated Cost to Fix:** $${scan.businessImpact.financialCost.toFixed(2)}
+- **Time Required:** ${scan.businessImpact.timeToFix}
+- **Technical Debt Ratio:** ${scan.summary.technicalDebt.debtRatio.toFixed(2)}%
+
+### 📈 Key Metrics
+- **Total Files Analyzed:** ${scan.summary.totalFiles}
+- **Lines of Code:** ${scan.summary.totalLines.toLocaleString()}
+- **Total Issues:** ${scan.summary.totalIssues}
+- **Critical Issues:** ${scan.summary.criticalIssues}
+- **Security Vulnerabilities:** ${audit.summary.totalVulnerabilities} (${audit.summary.criticalVulnerabilities} critical)
+- **Test Coverage:** ${scan.summary.quality.testCoverage.toFixed(1)}% ${formatCoverageSource(scan.coverage)}
+
+---
+
+## 🚨 Critical Actions Required
+
+${criticalActions.map((action, i) => `${i + 1}. ${action}`).join('\n')}
+
+---
+${scan.ownership ? `
+## 👥 Accountability by Team (CODEOWNERS)
+
+${formatOwnershipTable(scan.ownership)}
+
+---
+` : ''}
+## 📊 Code Quality Analysis
+
+### Complexity Metrics
+- **Average Cyclomatic Complexity:** ${scan.summary.complexity.avgCyclomatic.toFixed(1)}
+- **Average Cognitive Complexity:** ${scan.summary.complexity.avgCognitive.toFixed(1)}
+- **High Complexity Files:** ${scan.summary.complexity.highComplexityFiles}
+
+### Quality Issues
+- **Code Smells:** ${scan.summary.quality.codeSmells}
+- **Security Issues:** ${scan.summary.quality.securityIssues}
+
+---
+
+## 🎯 Business Impact Assessment
+
+### Productivity Impact
+${scan.businessImpact.productivityImpact}
+
+### Customer Impact
+${scan.businessImpact.customerImpact}
+
+### Return on Investment (ROI)
+${roi}
+
+---
+
+## 🔥 Top 10 Worst Files (Immediate Attention Required)
+
+${scan.trends.worstFiles.slice(0, 10).map((f: any, i: number) => 
+`${i + 1}. **${f.file}** (Score: ${f.score.toFixed(1)}/100) - ${f.reason}`
+).join('\n')}
+
+---
+
+## ⚡ Quick Wins (Low Effort, High Impact)
+
+${scan.trends.quickWins.slice(0, 10).map((qw: any, i: number) => 
+`${i + 1}. **${qw.file}** - ${qw.effort} minutes - ${qw.impact}`
+).join('\n')}
+
+---
+
+## 🛡️ Security Vulnerabilities
+
+${audit.vulnerabilities.length > 0 ? 
+audit.vulnerabilities.slice(0, 10).map((v: any, i: number) => 
+    `${i + 1}. **${v.package}** (${v.severity}) - ${v.ecosystem} - ${v.description || v.via || 'Security issue detected'}`
+).join('\n') : 
+'No vulnerabilities detected ✅'
+}
+
+---
+
+## 📦 Outdated Dependencies
+
+${audit.outdated.length > 0 ? 
+audit.outdated.slice(0, 10).map((d: any, i: number) => 
+    `${i + 1}. **${d.package}**: ${d.current} → ${d.latest}`
+).join('\n') : 
+'All dependencies are up to date ✅'
+}
+
+---
+
+## 💡 Recommendations
+
+${scan.businessImpact.recommendations.map((rec: string, i: number) => 
+`${i + 1}. ${rec}`
+).join('\n')}
+
+---
+
+## 📅 Suggested Remediation Timeline
+
+### Week 1-2: Critical Issues
+- Fix all security vulnerabilities
+- Address blocker-level code issues
+- Set up automated security scanning
+
+### Week 3-4: High Priority
+- Refactor high-complexity modules
+- Increase test coverage to 70%
+- Update critical dependencies
+
+### Month 2: Medium Priority
+- Address code smells in critical paths
+- Improve documentation
+- Establish code quality gates
+
+### Month 3+: Continuous Improvement
+- Maintain 80%+ test coverage
+- Regular dependency updates
+- Technical debt tracking in sprints
+
+---
+
+## 📈 Success Metrics
+
+Track these KPIs monthly:
+- Technical Debt Ratio (Target: < 10%)
+- SQALE Rating (Target: A or B)
+- Test Coverage (Target: > 80%)
+- Security Vulnerabilities (Target: 0 critical)
+- Maintainability Index (Target: > 70)
+
+---
+
+*Report generated by Tech Debt Insight - ${new Date().toISOString()}*
+`;
+
+    const executiveSummary = {
+        overallHealth,
+        criticalActions,
+        estimatedCost: scan.businessImpact.financialCost,
+        estimatedTime: scan.businessImpact.timeToFix,
+        roi
+    };
+    
+    // Save markdown report to file
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+    const reportPath = join(reportDir, `techdebt-cto-report-${timestamp}.md`);
+    const pdfPath = join(reportDir, `techdebt-cto-report-${timestamp}.pdf`);
+    
+    await progress.report(files.length + 1, totalSteps, 'Writing markdown report', true);
+    try {
+        await mkdir(reportDir, { recursive: true });
+        await writeFile(reportPath, report, 'utf-8');
+        console.error(`[TechDebt] ✅ CTO Report (Markdown) saved to: ${reportPath}`);
+    } catch (error: any) {
+        console.error(`[TechDebt] ❌ Failed to save CTO report: ${error.message}`);
+    }
+    
+    // Generate PDF report with AI detection
+    progress.throwIfCancelled();
+    await progress.report(files.length + 2, totalSteps, 'Generating PDF report', true);
+    try {
+        // Calculate enterprise metrics for PDF
+        const enterpriseMetrics = calculateEnterpriseMetrics(scan);
+        
+        await generateExecutivePDF(pdfPath, {
+            projectName,
+            scanDate: new Date().toISOString(),
+            metrics: enterpriseMetrics,
+            scanResults: scan,
+            aiSummary: aiSummary,
+            auditSummary: audit
+        });
+        
+        console.error(`[TechDebt] ✅ Executive Report (PDF) saved to: ${pdfPath}`);
+        console.error(`[TechDebt] 📊 Report includes: Tech Debt Analysis + AI Code Detection + Security Audit`);
+    } catch (error: any) {
+        console.error(`[TechDebt] ⚠️ PDF generation failed: ${error.message}`);
+        console.error(`[TechDebt] Markdown report is still available at: ${reportPath}`);
+    }
+    
+    return {
+        report,
+        executiveSummary,
+        reportPath,
+        pdfPath
+    };
+}
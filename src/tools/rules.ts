@@ -0,0 +1,61 @@
+/**
+ * Rule Listing
+ * Shared implementation of list_rules: the rule catalog with the project's rule settings applied
+ */
+
+import { loadConfig } from '../config/config.js';
+import { loadRulePlugins } from '../rules/plugins.js';
+import { buildRuleCatalog, CatalogCategory, RuleCatalogEntry } from '../rules/catalog.js';
+
+export type ListedRule = RuleCatalogEntry & { enabled: boolean; severity: string };
+
+export interface ListRulesOptions {
+    repoPath?: string; // include the repository's plugins and rule settings
+    category?: CatalogCategory;
+    ruleId?: string;
+}
+
+/**
+ * List catalog rules, optionally filtered, with the configured enabled state and severity
+ */
+export async function listRules(options: ListRulesOptions): Promise<ListedRule[]> {
+    const { repoPath, category, ruleId } = options;
+    
+    let rules: RuleCatalogEntry[];
+    let ruleConfig: Record<string, { enabled?: boolean; severity?: string } | undefined> = {};
+    if (repoPath) {
+        const { config } = await loadConfig(repoPath);
+        rules = buildRuleCatalog((await loadRulePlugins(repoPath, config.plugins)).rules);
+        ruleConfig = config.rules;
+    } else {
+        rules = buildRuleCatalog();
+    }
+    
+    rules = rules.filter(rule => (!category || rule.category === category) && (!ruleId || rule.id === ruleId));
+    if (ruleId && rules.length === 0) {
+        throw new Error(`Unknown rule '${ruleId}'`);
+    }
+    
+    // Reflect the project's configuration next to the defaults
+    return rules.map(rule => ({
+        ...rule,
+        enabled: ruleConfig[rule.id]?.enabled !== false,
+        severity: ruleConfig[rule.id]?.severity ?? rule.defaultSeverity
+    }));
+}
+
+/**
+ * Format the rule catalog as Markdown, one section per rule
+ */
+export function formatRuleCatalog(rules: ListedRule[]): string {
+    const sections = rules.map(rule => {
+        const tags = [rule.cwe, ...rule.owasp].filter(Boolean).join(', ');
+        return `### \`${rule.id}\` — ${rule.title}
+
+**Category:** ${rule.category} | **Severity:** ${rule.severity}${rule.severity !== rule.defaultSeverity ? ` (default ${rule.defaultSeverity})` : ''}${rule.enabled ? '' : ' | **Disabled**'}${rule.source === 'plugin' ? ' | **Plugin rule**' : ''}
+**Languages:** ${rule.languages === '*' ? 'all' : rule.languages.join(', ')}${tags ? ` | **Tags:** ${tags}` : ''}
+**Effort:** ${rule.effortFormula}${rule.rationale ? `\n\n${rule.rationale}` : ''}${rule.remediation ? `\n\n**How to fix:** ${rule.remediation}` : ''}`;
+    });
+    
+    return `# 📚 Rule Catalog (${rules.length} rule${rules.length === 1 ? '' : 's'})\n\n${sections.join('\n\n')}`;
+}
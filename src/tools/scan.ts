@@ -0,0 +1,635 @@
+/**
+ * Repository Scan
+ * Shared implementation of scan_repo and create_baseline for the MCP server and the CLI
+ */
+
+import { access, mkdir, readFile, stat, writeFile } from 'fs/promises';
+import { join, relative, resolve } from 'path';
+import { aggregateResults, scopeToChangedLines, sumFileDebt, ScanResult, FileScanResult } from '../scanner.js';
+import { calculateEnterpriseMetrics } from '../calculators/enterpriseMetrics.js';
+import { generateAISummary, AICodeAnalysis, AICodeSummary } from '../analyzers/aiCodeDetectorV2.js';
+import { createScanPool, defaultPoolSize, mapWithConcurrency, runOrSkipOnTimeout, ScanPoolFailedError } from '../workers/scanPool.js';
+import { ProgressReporter } from '../mcp/progress.js';
+import { getChangeSet, readFileAtRef, ChangeSet } from '../git/diff.js';
+import { createBaseline, writeBaseline, loadBaseline, applyBaseline, DEFAULT_BASELINE_PATH } from '../baseline/baseline.js';
+import { computeCacheFingerprint, loadScanCache, getCachedResult, setCachedResult, saveScanCache, hashContent } from '../cache/scanCache.js';
+import { loadConfig, resolveRuleConfig } from '../config/config.js';
+import { loadRulePlugins } from '../rules/plugins.js';
+import { evaluateQualityGate } from '../gates/qualityGate.js';
+import { createSnapshot, appendSnapshot } from '../history/history.js';
+import { getHeadCommit } from '../git/exec.js';
+import { blameIssues, summarizeIssueAge } from '../git/blame.js';
+import { collectChurn, summarizeChurn } from '../git/churn.js';
+import { rankHotspots, worstFilesFromHotspots } from '../calculators/hotspots.js';
+import { analyzeTemporalCoupling } from '../git/coupling.js';
+import { loadCoverage, coverageForFiles } from '../coverage/coverage.js';
+import { classifyFile, SkippedFile } from '../discovery/skipDetection.js';
+import { detectWorkspaces, findWorkspace, summarizeWorkspaces, ROOT_WORKSPACE } from '../workspaces/workspaces.js';
+import { loadCodeowners, resolveOwners, summarizeOwners } from '../ownership/codeowners.js';
+import { generateMarkdownReport, formatQualityGate, formatWorkspaceTable, formatOwnershipTable, formatIssueAge, formatHotspots, formatCouplingTable, formatCoverageSource } from '../reports/markdownReport.js';
+import { DEFAULT_INCLUDE_GLOBS, findFiles, findTestCoverageFiles, calculateTestCoverage } from './files.js';
+
+// Worker hard limit, as a multiple of the per-file time budget (rules check the budget cooperatively first)
+const HARD_TIMEOUT_FACTOR = 3;
+
+// Added to the hard limit so parsing, AI detection and messaging on a fresh worker fit even with tiny budgets
+const HARD_TIMEOUT_ALLOWANCE_MS = 1000;
+
+export interface RepositoryScanOptions {
+    repoPath: string;
+    includeGlobs?: string[]; // defaults to `include` from .techdebtrc, then DEFAULT_INCLUDE_GLOBS
+    useCache?: boolean;
+    workers?: number;
+    baseRef?: string;
+    baselinePath?: string | null; // defaults to .techdebt/baseline.json when present; null skips the comparison
+    recordHistory?: boolean; // append a history snapshot when .techdebtrc enables history (scan_repo only)
+}
+
+async function fileExists(path: string): Promise<boolean> {
+    return access(path).then(() => true, () => false);
+}
+
+export interface RepositoryScan {
+    scanResult: ScanResult;
+    aiSummary: AICodeSummary;
+    stepsDone: number;
+    totalSteps: number;
+}
+
+/**
+ * Discover, analyze and aggregate a repository (shared by scan_repo and create_baseline).
+ * Returns null when no files match. `trailingSteps` reserves progress steps for the caller's own phases.
+ */
+export async function scanRepository(
+    options: RepositoryScanOptions,
+    progress: ProgressReporter,
+    trailingSteps: number = 0
+): Promise<RepositoryScan | null> {
+    const { repoPath, includeGlobs, useCache = true, workers, baseRef, baselinePath, recordHistory = false } = options;
+    
+    console.error(`[TechDebt] Scanning repository: ${repoPath}`);
+    
+    // Project configuration (.techdebtrc); invalid files fail the scan
+    const { config, path: configPath } = await loadConfig(repoPath);
+    if (configPath) {
+        console.error(`[TechDebt] Using configuration: ${configPath}`);
+    }
+    
+    // Custom rule plugins are loaded up front so a broken plugin fails the scan before any analysis
+    const plugins = await loadRulePlugins(repoPath, config.plugins);
+    if (plugins.rules.length > 0) {
+        console.error(`[TechDebt] Loaded ${plugins.rules.length} custom rule(s): ${plugins.rules.map(r => r.id).join(', ')}`);
+    }
+    
+    // Find all files to scan
+    const discoveredFiles = await findFiles(repoPath, includeGlobs ?? config.include ?? DEFAULT_INCLUDE_GLOBS, config.exclude);
+    let files = discoveredFiles;
+    
+    // PR mode: restrict to files changed since the merge base with baseRef
+    let changeSet: ChangeSet | null = null;
+    if (baseRef) {
+        try {
+            changeSet = await getChangeSet(repoPath, baseRef);
+        } catch (error: any) {
+            throw new Error(`Unable to diff against '${baseRef}': ${error.message}`);
+        }
+        const changed = changeSet.files;
+        files = files.filter(f => changed.has(relative(repoPath, f)));
+        console.error(`[TechDebt] PR mode: ${changed.size} files changed since ${baseRef} (${changeSet.mergeBase.substring(0, 8)})`);
+    }
+    console.error(`[TechDebt] Found ${files.length} files to analyze`);
+    progress.throwIfCancelled();
+    
+    if (files.length === 0) {
+        return null;
+    }
+    
+    // Load incremental scan cache
+    const cache = useCache
+        ? await loadScanCache(repoPath, await computeCacheFingerprint({
+            rules: config.rules,
+            overrides: config.overrides,
+            plugins: Object.fromEntries(plugins.modules.map(m => [m.path, m.hash]))
+        }))
+        : null;
+    
+    // Analysis covers one step per file plus the post-processing phases below
+    const totalSteps = files.length + 3 + trailingSteps;
+    await progress.report(0, totalSteps, `Analyzing ${files.length} files`, true);
+    
+    // Scan each file (including AI detection) across the worker pool
+    const pool = createScanPool(workers ?? defaultPoolSize());
+    console.error(`[TechDebt] Analyzing with ${pool.size} worker thread(s)`);
+    let scannedCount = 0;
+    
+    // Sort so results merge in the same order regardless of completion order
+    const sortedFiles = [...files].sort();
+    let taskResults: Array<
+        | { file: string; scan: FileScanResult; aiAnalysis: AICodeAnalysis; base?: FileScanResult; skip?: undefined }
+        | { file: string; skip: Omit<SkippedFile, 'file'> }
+        | null
+    >;
+    
+    // Limits shared by HEAD files and, in PR mode, their merge-base versions
+    const sizeLimitSkip = (size: number) => size > config.limits.maxFileSizeBytes
+        ? { reason: 'too_large' as const, detail: `${size} bytes exceeds the ${config.limits.maxFileSizeBytes} byte limit` }
+        : null;
+    const decode = (relativePath: string, bytes: Buffer) =>
+        config.skipGenerated ? classifyFile(relativePath, bytes) : { content: bytes.toString('utf-8') };
+    const runTask = (relativePath: string, content: string, runScan: boolean) => runOrSkipOnTimeout(
+        pool,
+        {
+            file: relativePath,
+            content,
+            runScan,
+            rules: resolveRuleConfig(config, relativePath),
+            timeBudgetMs: config.limits.timeBudgetMs,
+            pluginModules: plugins.modules
+        },
+        config.limits.timeBudgetMs * HARD_TIMEOUT_FACTOR + HARD_TIMEOUT_ALLOWANCE_MS
+    );
+    
+    // PR mode: analyze the merge-base version of a changed file (its old path when renamed) under the same limits
+    const scanBaseVersion = async (relativePath: string, mergeBase: string, basePath: string): Promise<FileScanResult | undefined> => {
+        const baseContent = await readFileAtRef(repoPath, mergeBase, basePath);
+        if (baseContent === null) return undefined;
+        const bytes = Buffer.from(baseContent, 'utf-8');
+        const tooLarge = sizeLimitSkip(bytes.byteLength);
+        const decoded = tooLarge ? { skip: tooLarge } : decode(basePath, bytes);
+        const taskResult = decoded.skip ? { skip: decoded.skip } : await runTask(relativePath, decoded.content, true);
+        if ('skip' in taskResult) {
+            console.error(`[TechDebt] ⚠️ Base version of ${relativePath} was not analyzed (${taskResult.skip.reason}); its debt counts as new`);
+            return undefined;
+        }
+        return taskResult.scan;
+    };
+    const markAnalyzed = async () => {
+        scannedCount++;
+        if (scannedCount % 10 === 0) {
+            console.error(`[TechDebt] Progress: ${scannedCount}/${files.length} files analyzed`);
+        }
+        await progress.report(scannedCount, totalSteps, `Analyzed ${scannedCount}/${files.length} files`);
+    };
+    try {
+        taskResults = await mapWithConcurrency(sortedFiles, pool.size * 2, async (file) => {
+            progress.throwIfCancelled();
+            try {
+                const relativePath = relative(repoPath, file);
+                
+                // Oversized files would stall the scan; list them instead of reading them
+                const tooLarge = sizeLimitSkip((await stat(file)).size);
+                if (tooLarge) {
+                    await markAnalyzed();
+                    return { file: relativePath, skip: tooLarge };
+                }
+                
+                // Generated, minified and binary files are listed in `skipped` instead of analyzed
+                const classified = decode(relativePath, await readFile(file));
+                if (classified.skip) {
+                    await markAnalyzed();
+                    return { file: relativePath, skip: classified.skip };
+                }
+                const content = classified.content;
+                
+                const hash = cache ? hashContent(content) : '';
+                const cached = cache ? getCachedResult(cache, relativePath, hash) : undefined;
+                const taskResult = await runTask(relativePath, content, !cached);
+                if ('skip' in taskResult) {
+                    await markAnalyzed();
+                    return { file: relativePath, skip: taskResult.skip };
+                }
+                const scan = cached ?? taskResult.scan!;
+                // Partial results depend on timing, so they are recomputed next time
+                if (cache && !cached && !scan.partial) setCachedResult(cache, relativePath, hash, scan);
+                
+                const base = changeSet
+                    ? await scanBaseVersion(relativePath, changeSet.mergeBase, changeSet.renamedFrom.get(relativePath) ?? relativePath)
+                    : undefined;
+                
+                await markAnalyzed();
+                return { file: relativePath, scan, aiAnalysis: taskResult.aiAnalysis, base };
+            } catch (error: any) {
+                if (progress.isCancelled() || error instanceof ScanPoolFailedError) throw error;
+                console.error(`[TechDebt] Error scanning ${file}: ${error.message}`);
+                return null;
+            }
+        });
+    } finally {
+        await pool.close();
+    }
+    
+    const fileResults: Array<FileScanResult & { file: string }> = [];
+    const aiAnalyses: AICodeAnalysis[] = [];
+    const skipped: SkippedFile[] = [];
+    const baseResults = new Map<string, FileScanResult | undefined>();
+    for (const taskResult of taskResults) {
+        if (!taskResult) continue;
+        if (taskResult.skip) {
+            skipped.push({ file: taskResult.file, ...taskResult.skip });
+            continue;
+        }
+        fileResults.push({ file: taskResult.file, ...taskResult.scan });
+        baseResults.set(taskResult.file, taskResult.base);
+        aiAnalyses.push(taskResult.aiAnalysis);
+    }
+    
+    if (cache) {
+        console.error(`[TechDebt] Cache: ${cache.hits} hits, ${cache.misses} misses`);
+        try {
+            await saveScanCache(cache);
+        } catch (error: any) {
+            console.error(`[TechDebt] ⚠️ Failed to save scan cache: ${error.message}`);
+        }
+    }
+    
+    // PR mode: compare against the merge base and keep only findings on changed lines
+    let baseDebtMinutes = 0;
+    let headDebtMinutes = 0;
+    if (changeSet) {
+        for (let i = 0; i < fileResults.length; i++) {
+            const { file, ...headResult } = fileResults[i];
+            const baseResult = baseResults.get(file);
+            
+            headDebtMinutes += sumFileDebt(headResult);
+            baseDebtMinutes += baseResult ? sumFileDebt(baseResult) : 0;
+            fileResults[i] = {
+                file,
+                ...scopeToChangedLines(headResult, changeSet.files.get(file) ?? [], baseResult)
+            };
+        }
+    }
+    
+    progress.throwIfCancelled();
+    console.error(`[TechDebt] Calculating test coverage...`);
+    await progress.report(files.length + 1, totalSteps, 'Calculating test coverage', true);
+    const coverageFiles = await findTestCoverageFiles(repoPath, config.exclude);
+    // Resolve report entries against every file the scan covers, including unchanged files in PR mode
+    const coverage = await loadCoverage(repoPath, discoveredFiles.map(f => relative(repoPath, f)), config.coverage.reports);
+    const testCoverage = coverage
+        ? coverage.summary.lineCoverage
+        : calculateTestCoverage(coverageFiles.allFiles, coverageFiles.testFiles);
+    if (coverage) {
+        console.error(`[TechDebt] Coverage: ${coverage.summary.lineCoverage}% of lines from ${coverage.summary.reports.map(r => r.path).join(', ')}`);
+    }
+    
+    progress.throwIfCancelled();
+    console.error(`[TechDebt] Aggregating results and calculating business impact...`);
+    await progress.report(files.length + 2, totalSteps, 'Aggregating results', true);
+    const scanResult: ScanResult = aggregateResults(fileResults, testCoverage, config.costModel);
+    scanResult.skipped = skipped;
+    if (coverage) {
+        scanResult.coverage = coverage.summary;
+    }
+    if (skipped.length > 0) {
+        const byReason = new Map<string, number>();
+        for (const { reason } of skipped) byReason.set(reason, (byReason.get(reason) ?? 0) + 1);
+        console.error(`[TechDebt] Skipped ${skipped.length} files (${[...byReason].map(([reason, count]) => `${count} ${reason}`).join(', ')})`);
+    }
+    if (changeSet) {
+        scanResult.pullRequest = {
+            baseRef: changeSet.baseRef,
+            mergeBase: changeSet.mergeBase,
+            changedFiles: fileResults.length,
+            baseDebtMinutes,
+            headDebtMinutes,
+            debtDeltaMinutes: headDebtMinutes - baseDebtMinutes
+        };
+        console.error(`[TechDebt] PR debt delta: ${scanResult.pullRequest.debtDeltaMinutes >= 0 ? '+' : ''}${scanResult.pullRequest.debtDeltaMinutes} minutes`);
+    }
+    
+    // Compare against the issue baseline, if one exists
+    if (baselinePath !== null) {
+        const resolvedBaselinePath = resolve(repoPath, baselinePath ?? DEFAULT_BASELINE_PATH);
+        const baseline = await loadBaseline(resolvedBaselinePath);
+        if (baseline) {
+            // Issues of files this scan did not fully analyze are only fixed if the file is gone
+            const analyzedFiles = new Set(fileResults.filter(r => !r.partial).map(r => r.file));
+            const deletedFiles = new Set<string>();
+            for (const file of new Set(baseline.issues.map(entry => entry.file))) {
+                if (!analyzedFiles.has(file) && !await fileExists(join(repoPath, file))) deletedFiles.add(file);
+            }
+            scanResult.baseline = applyBaseline(scanResult, baseline, resolvedBaselinePath, {
+                partial: changeSet !== null,
+                analyzedFiles,
+                deletedFiles
+            });
+            console.error(`[TechDebt] Baseline: ${scanResult.baseline.newIssues} new, ${scanResult.baseline.existingIssues} existing, ${scanResult.baseline.fixedIssues ?? 'n/a'} fixed`);
+        } else if (baselinePath) {
+            throw new Error(`Baseline file not found: ${resolvedBaselinePath}`);
+        }
+    }
+    
+    // Monorepos: roll results up per package as well as for the whole repository
+    const workspaces = await detectWorkspaces(repoPath);
+    if (workspaces.length > 0) {
+        const inWorkspace = (files: string[], path: string) =>
+            files.filter(f => findWorkspace(workspaces, relative(repoPath, f)).path === path);
+        const workspaceCoverage = new Map<string, number>();
+        for (const { path } of [...workspaces, ROOT_WORKSPACE]) {
+            const workspaceFiles = inWorkspace(coverageFiles.allFiles, path);
+            const reported = coverage ? coverageForFiles(coverage, workspaceFiles.map(f => relative(repoPath, f))) : null;
+            workspaceCoverage.set(path, reported ?? calculateTestCoverage(
+                workspaceFiles,
+                inWorkspace(coverageFiles.testFiles, path)
+            ));
+        }
+        scanResult.workspaces = summarizeWorkspaces(fileResults, workspaces, workspaceCoverage, config.costModel);
+        console.error(`[TechDebt] Workspaces: ${workspaces.length} packages detected`);
+    }
+    
+    // Ownership: annotate issues and files with their CODEOWNERS owners and roll debt up per owner
+    const codeowners = await loadCodeowners(repoPath);
+    if (codeowners) {
+        const ownersByFile = new Map(fileResults.map(r => [r.file, resolveOwners(codeowners, r.file)]));
+        const ownersOf = (file: string) => ownersByFile.get(file) ?? resolveOwners(codeowners, file);
+        for (const issue of scanResult.issues) issue.owners = ownersOf(issue.file);
+        for (const metrics of scanResult.fileMetrics) metrics.owners = ownersOf(metrics.file);
+        scanResult.ownership = summarizeOwners(fileResults, ownersOf, testCoverage, config.costModel);
+        console.error(`[TechDebt] Ownership: ${scanResult.ownership.length} owner(s) from ${codeowners.path}`);
+    }
+    
+    // Blame: attribute issues to the commit that last touched their line and bucket them by age
+    if (config.blame && scanResult.issues.length > 0 && await getHeadCommit(repoPath)) {
+        progress.throwIfCancelled();
+        const blamed = await blameIssues(repoPath, scanResult.issues);
+        if (blamed > 0) {
+            scanResult.summary.issueAge = summarizeIssueAge(scanResult.issues);
+            console.error(`[TechDebt] Blame: ${blamed}/${scanResult.issues.length} issues attributed (median age ${scanResult.summary.issueAge.medianDays} days)`);
+        }
+    }
+    
+    // Churn: lines added and deleted per file within the configured window of git history
+    if (config.churn.enabled) {
+        progress.throwIfCancelled();
+        const churnLog = await collectChurn(repoPath, config.churn.windowDays);
+        if (churnLog) {
+            for (const metrics of scanResult.fileMetrics) {
+                const churn = churnLog.files.get(metrics.file.split('\\').join('/'));
+                metrics.churn = {
+                    commits: churn?.commits ?? 0,
+                    linesAdded: churn?.linesAdded ?? 0,
+                    linesDeleted: churn?.linesDeleted ?? 0
+                };
+            }
+            scanResult.summary.churn = summarizeChurn(churnLog, config.churn.windowDays, scanResult.fileMetrics);
+            console.error(`[TechDebt] Churn: ${scanResult.summary.churn.churnRate}% over ${config.churn.windowDays} days (${scanResult.summary.churn.commits} commits)`);
+            
+            // Hotspots: rank where complexity meets frequent change, and prioritize worst files accordingly
+            scanResult.hotspots = rankHotspots(scanResult.fileMetrics);
+            if (scanResult.hotspots.length > 0) {
+                scanResult.trends.worstFiles = worstFilesFromHotspots(scanResult.hotspots, scanResult.fileMetrics, config.churn.windowDays);
+                console.error(`[TechDebt] Top hotspot: ${scanResult.hotspots[0].file} (score ${scanResult.hotspots[0].score})`);
+            }
+        }
+    }
+    
+    // Temporal coupling: files that keep changing together, across packages (monorepos) or top-level directories
+    if (config.coupling.enabled) {
+        progress.throwIfCancelled();
+        const moduleOf = workspaces.length > 0 ? (file: string) => findWorkspace(workspaces, file).path : undefined;
+        const coupling = await analyzeTemporalCoupling(repoPath, fileResults.map(r => r.file), config.coupling, moduleOf);
+        if (coupling) {
+            scanResult.temporalCoupling = coupling;
+            console.error(`[TechDebt] Temporal coupling: ${coupling.pairs.length} pair(s), ${coupling.crossModulePairs} across modules (${coupling.commitsAnalyzed} commits)`);
+        }
+    }
+    
+    // Quality gate: evaluated last so it sees baseline status and PR delta
+    if (config.qualityGate.length > 0) {
+        scanResult.qualityGate = evaluateQualityGate(config.qualityGate, scanResult);
+        const failed = scanResult.qualityGate.conditions.filter(c => c.status === 'failed').length;
+        console.error(`[TechDebt] Quality gate ${scanResult.qualityGate.status}${failed > 0 ? ` (${failed} condition(s) failed)` : ''}`);
+    }
+    
+    console.error(`[TechDebt] Scan complete! Found ${scanResult.summary.totalIssues} issues`);
+    console.error(`[TechDebt] SQALE Rating: ${scanResult.summary.technicalDebt.sqaleRating}`);
+    console.error(`[TechDebt] Estimated Cost: $${scanResult.businessImpact.financialCost.toFixed(2)}`);
+    
+    // Generate AI summary
+    await progress.report(files.length + 3, totalSteps, 'Summarizing AI code detection', true);
+    const aiSummary = generateAISummary(aiAnalyses);
+    console.error(`[TechDebt] AI Code Detection: ${aiSummary.aiCodePercentage}% AI-generated`);
+    
+    // Record a history snapshot only for full scans with the configured file set; PR scans and
+    // custom include patterns cover a subset of the repository, so they would distort the trend
+    if (recordHistory && config.history && !changeSet && !includeGlobs) {
+        try {
+            const historyFile = await appendSnapshot(repoPath, createSnapshot(scanResult, aiSummary, await getHeadCommit(repoPath)));
+            console.error(`[TechDebt] History snapshot appended to: ${historyFile}`);
+        } catch (error: any) {
+            console.error(`[TechDebt] ⚠️ Failed to record history snapshot: ${error.message}`);
+        }
+    }
+    
+    return { scanResult, aiSummary, stepsDone: files.length + 3, totalSteps };
+}
+
+/**
+ * Result reported when no files match the scan patterns
+ */
+function emptyScanResult(): ScanResult {
+    return {
+        summary: {
+            totalFiles: 0,
+            totalLines: 0,
+            totalIssues: 0,
+            criticalIssues: 0,
+            technicalDebt: {
+                totalMinutes: 0,
+                debtRatio: 0,
+                sqaleRating: 'A',
+                maintainabilityIndex: 100
+            },
+            complexity: {
+                avgCyclomatic: 0,
+                avgCognitive: 0,
+                highComplexityFiles: 0
+            },
+            quality: {
+                codeSmells: 0,
+                securityIssues: 0,
+                testCoverage: 0
+            }
+        },
+        businessImpact: {
+            financialCost: 0,
+            timeToFix: '0 minutes',
+            riskScore: 0,
+            productivityImpact: 'Low',
+            customerImpact: 'Low',
+            recommendations: ['No files found to analyze']
+        },
+        issues: [],
+        fileMetrics: [],
+        trends: {
+            worstFiles: [],
+            quickWins: [],
+            criticalPath: []
+        },
+        suppressed: [],
+        skipped: [],
+        partial: []
+    };
+}
+
+export interface ScanRepoOptions extends RepositoryScanOptions {
+    reportDir?: string; // where the markdown report is written (default: the repository; created if missing)
+    writeReport?: boolean; // default true; false skips the markdown report file
+}
+
+export interface ScanRepoOutput {
+    scanResult: ScanResult;
+    aiSummary?: AICodeSummary;
+    reportPath?: string; // undefined when no files matched or the report was not written
+    executiveSummary?: string; // markdown summary for terminal display
+}
+
+/**
+ * Run scan_repo: scan the repository, save the markdown report and build the executive summary
+ */
+export async function runScanRepo(options: ScanRepoOptions, progress: ProgressReporter): Promise<ScanRepoOutput> {
+    const { repoPath, reportDir = repoPath, writeReport = true } = options;
+    const scan = await scanRepository({ ...options, recordHistory: true }, progress, 1);
+    
+    if (!scan) {
+        return { scanResult: emptyScanResult() };
+    }
+    
+    const { scanResult, aiSummary } = scan;
+    
+    // Generate markdown report
+    progress.throwIfCancelled();
+    await progress.report(scan.totalSteps, scan.totalSteps, 'Writing report', true);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+    let reportPath: string | undefined;
+    const enterpriseMetrics = calculateEnterpriseMetrics(scanResult);
+    
+    if (writeReport) {
+        const path = join(reportDir, `techdebt-report-${timestamp}.md`);
+        try {
+            await mkdir(reportDir, { recursive: true });
+            await writeFile(path, generateMarkdownReport(scanResult, repoPath, aiSummary), 'utf-8');
+            reportPath = path;
+            console.error(`[TechDebt] ✅ Report saved to: ${reportPath}`);
+        } catch (error: any) {
+            console.error(`[TechDebt] ❌ Failed to save report: ${error.message}`);
+        }
+    }
+    
+    // Generate executive summary for terminal display
+    const executiveSummary = `
+# 📊 Technical Debt Scan Complete
+
+**Repository:** ${repoPath}
+**Report File:** ${reportPath ?? 'not written'}
+
+## 🎯 Executive Summary
+
+- **Overall Health:** ${enterpriseMetrics.technicalDebtRatio < 5 ? '🟢 Excellent' : enterpriseMetrics.technicalDebtRatio < 15 ? '🟡 Good' : enterpriseMetrics.technicalDebtRatio < 25 ? '🟠 Fair' : '🔴 Critical'}
+- **SQALE Rating:** ${scanResult.summary.technicalDebt.sqaleRating}
+- **Code Quality Score:** ${enterpriseMetrics.codeQualityScore}/100
+- **Technical Debt Ratio:** ${enterpriseMetrics.technicalDebtRatio.toFixed(1)}%
+${scanResult.qualityGate ? `
+## 🚦 Quality Gate
+
+${formatQualityGate(scanResult.qualityGate)}
+` : ''}
+## 📈 Key Metrics
+
+- **Total Files:** ${scanResult.summary.totalFiles}
+- **Lines of Code:** ${scanResult.summary.totalLines.toLocaleString()}
+- **Total Issues:** ${scanResult.summary.totalIssues} (${scanResult.summary.criticalIssues} critical)
+- **Suppressed Issues:** ${scanResult.suppressed.length} (inline \`techdebt-ignore\` directives)
+- **Skipped Files:** ${scanResult.skipped.length} (generated, minified, binary, too large or timed out)
+${scanResult.partial.length > 0 ? `- **Partially Analyzed Files:** ${scanResult.partial.length} (time budget exceeded; see report)
+` : ''}- **Test Coverage:** ${scanResult.summary.quality.testCoverage.toFixed(1)}% ${formatCoverageSource(scanResult.coverage)}
+- **Defect Density:** ${enterpriseMetrics.defectDensity.toFixed(2)} per 1K LOC
+${scanResult.summary.churn ? `- **Code Churn:** ${scanResult.summary.churn.churnRate.toFixed(1)}% over ${scanResult.summary.churn.windowDays} days (+${scanResult.summary.churn.linesAdded}/-${scanResult.summary.churn.linesDeleted} lines, ${scanResult.summary.churn.commits} commits)
+` : ''}${scanResult.pullRequest ? `
+## 🔀 Pull Request Debt Delta
+
+- **Base:** ${scanResult.pullRequest.baseRef} (merge base \`${scanResult.pullRequest.mergeBase.substring(0, 8)}\`)
+- **Changed Files Scanned:** ${scanResult.pullRequest.changedFiles}
+- **New Issues on Changed Lines:** ${scanResult.summary.totalIssues}
+- **Debt Delta:** ${scanResult.pullRequest.debtDeltaMinutes >= 0 ? '+' : ''}${scanResult.pullRequest.debtDeltaMinutes} minutes (${scanResult.pullRequest.baseDebtMinutes} → ${scanResult.pullRequest.headDebtMinutes})
+` : ''}${scanResult.baseline ? `
+## 📌 Baseline Comparison
+
+- **New Issues:** ${scanResult.baseline.newIssues} (${scanResult.baseline.newDebtMinutes} minutes of new debt)
+- **Existing (Baselined) Issues:** ${scanResult.baseline.existingIssues}
+- **Fixed Since Baseline:** ${scanResult.baseline.fixedIssues ?? 'n/a (PR mode analyzes changed lines only)'}
+- **Baseline Created:** ${scanResult.baseline.createdAt}
+` : ''}${scanResult.workspaces ? `
+## 📦 Workspaces
+
+${formatWorkspaceTable(scanResult.workspaces)}
+` : ''}${scanResult.hotspots && scanResult.hotspots.length > 0 ? `
+## 🌡️ Top Hotspots (Change Frequency × Complexity)
+
+${formatHotspots(scanResult.hotspots.slice(0, 5))}
+` : ''}${scanResult.temporalCoupling && scanResult.temporalCoupling.pairs.length > 0 ? `
+## 🔗 Temporal Coupling
+
+- **Coupled Pairs:** ${scanResult.temporalCoupling.pairs.length} (${scanResult.temporalCoupling.crossModulePairs} across modules)
+
+${formatCouplingTable(scanResult.temporalCoupling.pairs.slice(0, 5))}
+` : ''}${scanResult.summary.issueAge ? `
+## ⏳ Issue Age
+
+${formatIssueAge(scanResult.summary.issueAge)}
+` : ''}${scanResult.ownership ? `
+## 👥 Debt by Owner
+
+${formatOwnershipTable(scanResult.ownership)}
+` : ''}
+## 💰 Business Impact
+
+- **Estimated Cost:** $${scanResult.businessImpact.financialCost.toLocaleString()}
+- **Time to Fix:** ${scanResult.businessImpact.timeToFix}
+- **Velocity Impact:** ${enterpriseMetrics.velocityTrend.impactLevel}
+- **Team Satisfaction:** ${enterpriseMetrics.teamSatisfactionIndex}/100
+
+## 🚨 Top Priority Actions
+
+${scanResult.issues.filter((i: any) => i.severity === 'critical').slice(0, 3).map((issue: any, idx: number) => 
+`${idx + 1}. [CRITICAL] ${issue.message} (${issue.file}:${issue.line})${issue.owners?.length ? ` → ${issue.owners.join(', ')}` : ''}`
+).join('\n') || 'No critical issues found ✅'}
+
+---
+
+${reportPath ? `📄 **Full detailed report saved to:** \`${reportPath}\`` : '📄 **Full detailed report:** not written'}
+`;
+    
+    return { scanResult, aiSummary, reportPath, executiveSummary };
+}
+
+export interface BaselineOptions {
+    repoPath: string;
+    includeGlobs?: string[];
+    baselinePath: string; // relative to the repository
+    useCache?: boolean;
+    workers?: number;
+}
+
+/**
+ * Run create_baseline: scan the repository and record every current issue in the baseline file
+ */
+export async function createRepositoryBaseline(options: BaselineOptions, progress: ProgressReporter) {
+    const { repoPath, includeGlobs, baselinePath, useCache, workers } = options;
+    
+    const scan = await scanRepository({ repoPath, includeGlobs, useCache, workers, baselinePath: null }, progress, 1);
+    const resolvedBaselinePath = resolve(repoPath, baselinePath);
+    
+    progress.throwIfCancelled();
+    await progress.report(scan?.totalSteps ?? 1, scan?.totalSteps ?? 1, 'Writing baseline', true);
+    const baseline = createBaseline(scan?.scanResult.issues ?? []);
+    await writeBaseline(resolvedBaselinePath, baseline);
+    console.error(`[TechDebt] ✅ Baseline with ${baseline.issues.length} issues saved to: ${resolvedBaselinePath}`);
+    
+    return {
+        baselinePath: resolvedBaselinePath,
+        createdAt: baseline.createdAt,
+        issues: baseline.issues.length,
+        debtMinutes: baseline.issues.reduce((sum, issue) => sum + issue.effort, 0)
+    };
+}
@@ -0,0 +1,59 @@
+/**
+ * Trends
+ * Shared implementation of get_trends: time series from the recorded scan history
+ */
+
+import { loadHistory, computeTrends, historyPath, TrendQuery, TrendSeries } from '../history/history.js';
+
+export interface TrendsOptions extends TrendQuery {
+    repoPath: string;
+}
+
+export type TrendsResult = TrendSeries & { historyPath: string };
+
+/**
+ * Load the repository's scan history and compute the requested series
+ */
+export async function getTrends(options: TrendsOptions): Promise<TrendsResult> {
+    const { repoPath, ...query } = options;
+    const snapshots = await loadHistory(repoPath);
+    return { historyPath: historyPath(repoPath), ...computeTrends(snapshots, query) };
+}
+
+function signed(value: number, suffix: string = ''): string {
+    const rounded = Math.round(value * 10) / 10;
+    return `${rounded > 0 ? '+' : ''}${rounded}${suffix}`;
+}
+
+/**
+ * Format the series as a Markdown table, oldest snapshot first
+ */
+export function formatTrends(trends: TrendsResult): string {
+    if (trends.snapshots === 0) {
+        return `# 📈 Technical Debt Trends
+
+No scan history found in \`${trends.historyPath}\`. Every full scan_repo run records a snapshot; run a scan to start the history.`;
+    }
+
+    const rows = trends.points.map(point =>
+        `| ${point.timestamp.replace('T', ' ').substring(0, 16)} | ${point.commit ? `\`${point.commit.substring(0, 8)}\`` : '-'} | ${point.debtMinutes} | ${point.sqaleRating} | ${point.issues.total} | ${point.issues.byCategory.maintainability ?? 0} | ${point.issues.byCategory.security ?? 0} | ${point.aiCodePercentage}% |`
+    );
+    const { change } = trends;
+
+    return `# 📈 Technical Debt Trends
+
+**Snapshots:** ${trends.snapshots} (${trends.from} → ${trends.to})
+${change ? `
+## Change Over the Period
+
+- **Debt:** ${signed(change.debtMinutes, ' minutes')}
+- **Issues:** ${signed(change.totalIssues)}
+- **SQALE Rating:** ${change.sqaleRating.from} → ${change.sqaleRating.to}
+- **AI Code:** ${signed(change.aiCodePercentage, ' percentage points')}
+` : ''}
+## Snapshots
+
+| Date (UTC) | Commit | Debt (min) | SQALE | Issues | Maintainability | Security | AI Code |
+|------------|--------|------------|-------|--------|-----------------|----------|---------|
+${rows.join('\n')}`;
+}
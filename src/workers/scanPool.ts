@@ -0,0 +1,233 @@
+/**
+ * Worker Thread Pool
+ * Spreads per-file analysis across a configurable number of worker_threads
+ */
+
+import { Worker } from 'worker_threads';
+import { cpus } from 'os';
+import { ScanTask, ScanTaskResult } from './scanTask.js';
+import { SkippedFile } from '../discovery/skipDetection.js';
+
+// Time a worker gets to start up and import rule plugins before a task's own time limit starts
+const STARTUP_ALLOWANCE_MS = 30_000;
+
+// Workers in a row that may fail before sending their first message; then the pool fails instead of respawning
+const MAX_STARTUP_FAILURES = 3;
+
+export interface ScanPool {
+    size: number;
+    /**
+     * Run a task. With `timeoutMs`, a worker still busy that long after it started the task
+     * (worker startup and plugin imports excluded) is terminated and replaced, and the task
+     * fails with TaskTimeoutError.
+     */
+    run(task: ScanTask, timeoutMs?: number): Promise<ScanTaskResult>;
+    /**
+     * Terminate the workers. Queued and in-flight tasks fail.
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * A task exceeded its hard time limit and its worker was terminated
+ */
+export class TaskTimeoutError extends Error {
+    constructor(file: string, timeoutMs: number) {
+        super(`Analysis of ${file} exceeded ${timeoutMs} ms and was aborted`);
+        this.name = 'TaskTimeoutError';
+    }
+}
+
+/**
+ * Workers kept failing before they could start, so the pool stopped respawning them
+ */
+export class ScanPoolFailedError extends Error {
+    constructor(failures: number, cause: Error) {
+        super(`Scan workers failed to start ${failures} times in a row: ${cause.message}`);
+        this.name = 'ScanPoolFailedError';
+    }
+}
+
+interface PendingTask {
+    id: number;
+    task: ScanTask;
+    timeoutMs?: number;
+    resolve: (result: ScanTaskResult) => void;
+    reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    current?: PendingTask;
+    timer?: NodeJS.Timeout;
+    loaded: boolean; // the worker has sent a message, so its module loaded
+}
+
+/**
+ * Default pool size: leave one core for the MCP server's main thread
+ */
+export function defaultPoolSize(): number {
+    return Math.max(1, cpus().length - 1);
+}
+
+/**
+ * Create a pool of scan workers. There is always at least one worker: analysis never
+ * runs on the main thread, so a stuck file cannot block the server.
+ * `workerUrl` is the worker entry point (scanWorker.js unless a test substitutes one).
+ */
+export function createScanPool(size: number = defaultPoolSize(), workerUrl: URL = new URL('./scanWorker.js', import.meta.url)): ScanPool {
+    size = Math.max(1, size);
+    const workers: PoolWorker[] = [];
+    const queue: PendingTask[] = [];
+    let nextId = 0;
+    let closed = false;
+    let failure: Error | null = null;
+    let startupFailures = 0;
+
+    const dispatch = () => {
+        for (const slot of workers) {
+            if (slot.current || queue.length === 0) continue;
+            const pending = queue.shift()!;
+            slot.current = pending;
+            slot.worker.postMessage({ id: pending.id, task: pending.task });
+            if (pending.timeoutMs !== undefined) {
+                // Replaced by the task's own limit once the worker reports it started
+                slot.timer = setTimeout(() => abandon(slot, pending, STARTUP_ALLOWANCE_MS), STARTUP_ALLOWANCE_MS);
+            }
+        }
+    };
+
+    // Fail every queued and in-flight task and terminate the workers
+    const shutdown = async (error: Error) => {
+        closed = true;
+        for (const pending of queue.splice(0)) {
+            pending.reject(error);
+        }
+        for (const slot of workers) {
+            clearTimeout(slot.timer);
+            slot.current?.reject(error);
+            slot.current = undefined;
+        }
+        await Promise.all(workers.map(slot => slot.worker.terminate()));
+    };
+
+    // Fail the slot's current task and replace its worker; give up after repeated startup failures
+    const replace = (slot: PoolWorker, error: Error) => {
+        const index = workers.indexOf(slot);
+        if (index === -1 || closed) return;
+        clearTimeout(slot.timer);
+        const pending = slot.current;
+        slot.current = undefined;
+        slot.timer = undefined;
+        pending?.reject(error);
+
+        slot.worker.removeAllListeners();
+        void slot.worker.terminate();
+        startupFailures = slot.loaded ? 0 : startupFailures + 1;
+        if (startupFailures >= MAX_STARTUP_FAILURES) {
+            failure = new ScanPoolFailedError(startupFailures, error);
+            workers.splice(index, 1);
+            void shutdown(failure);
+            return;
+        }
+        workers[index] = spawn();
+        dispatch();
+    };
+
+    // A stuck task (e.g. catastrophic regex backtracking) cannot be interrupted, so replace its worker
+    const abandon = (slot: PoolWorker, pending: PendingTask, limitMs: number) => {
+        if (slot.current !== pending) return;
+        replace(slot, new TaskTimeoutError(pending.task.file, limitMs));
+    };
+
+    const spawn = (): PoolWorker => {
+        const slot: PoolWorker = { worker: new Worker(workerUrl), loaded: false };
+
+        slot.worker.on('message', (message: { id: number; started?: boolean; result?: ScanTaskResult; error?: string }) => {
+            slot.loaded = true;
+            startupFailures = 0;
+            const pending = slot.current;
+            if (!pending || pending.id !== message.id) return;
+            clearTimeout(slot.timer);
+            if (message.started) {
+                if (pending.timeoutMs !== undefined) {
+                    slot.timer = setTimeout(() => abandon(slot, pending, pending.timeoutMs!), pending.timeoutMs);
+                }
+                return;
+            }
+            slot.current = undefined;
+            if (message.error !== undefined) {
+                pending.reject(new Error(message.error));
+            } else {
+                pending.resolve(message.result!);
+            }
+            dispatch();
+        });
+
+        // A crashed or exited worker fails its current task and is replaced
+        slot.worker.on('error', (error) => replace(slot, error));
+        slot.worker.on('exit', (code) => replace(slot, new Error(`Scan worker exited with code ${code}`)));
+
+        return slot;
+    };
+
+    for (let i = 0; i < size; i++) {
+        workers.push(spawn());
+    }
+
+    return {
+        size,
+        run(task: ScanTask, timeoutMs?: number): Promise<ScanTaskResult> {
+            if (closed) {
+                return Promise.reject(failure ?? new Error('Scan pool is closed'));
+            }
+            return new Promise((resolve, reject) => {
+                queue.push({ id: nextId++, task, timeoutMs, resolve, reject });
+                dispatch();
+            });
+        },
+        async close(): Promise<void> {
+            await shutdown(new Error('Scan pool is closed'));
+        }
+    };
+}
+
+/**
+ * Run a task under a hard time limit. A task that exceeds it yields a `timeout` skip instead
+ * of a result: its worker was terminated, so nothing it found is kept. Other errors propagate.
+ */
+export async function runOrSkipOnTimeout(
+    pool: ScanPool,
+    task: ScanTask,
+    timeoutMs: number
+): Promise<ScanTaskResult | { skip: Omit<SkippedFile, 'file'> }> {
+    try {
+        return await pool.run(task, timeoutMs);
+    } catch (error) {
+        if (!(error instanceof TaskTimeoutError)) throw error;
+        return { skip: { reason: 'timeout', detail: error.message } };
+    }
+}
+
+/**
+ * Map over items with a bounded number of in-flight operations.
+ * Results keep the order of the input items.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    });
+
+    await Promise.all(runners);
+    return results;
+}
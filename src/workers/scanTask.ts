@@ -0,0 +1,45 @@
+/**
+ * Per-file Scan Task
+ * The unit of work shared by worker threads and the in-process fallback
+ */
+
+import { scanFile, FileScanResult } from '../scanner.js';
+import { analyzeAICode, AICodeAnalysis } from '../analyzers/aiCodeDetectorV2.js';
+import { RuleConfig } from '../config/config.js';
+import { loadRuleModules, PluginModule } from '../rules/plugins.js';
+import { RuleDefinition } from '../rules/registry.js';
+
+export interface ScanTask {
+    file: string;
+    content: string;
+    runScan: boolean; // false when scanFile output is already cached
+    rules?: RuleConfig;
+    timeBudgetMs?: number;
+    pluginModules?: PluginModule[]; // rule plugin modules, imported once per worker and version
+}
+
+export interface ScanTaskResult {
+    file: string;
+    scan?: FileScanResult;
+    aiAnalysis: AICodeAnalysis;
+}
+
+/**
+ * Import the task's rule plugins (cached per worker after the first task)
+ */
+export async function loadTaskRules(task: ScanTask): Promise<RuleDefinition[]> {
+    return task.runScan && task.pluginModules ? loadRuleModules(task.pluginModules) : [];
+}
+
+/**
+ * Run scanFile and AI detection for a single file
+ */
+export async function runScanTask(task: ScanTask, customRules?: RuleDefinition[]): Promise<ScanTaskResult> {
+    customRules ??= await loadTaskRules(task);
+    const scan = task.runScan
+        ? await scanFile(task.content, task.file, task.rules, { timeBudgetMs: task.timeBudgetMs, customRules })
+        : undefined;
+    const aiAnalysis = analyzeAICode(task.content, task.file, scan?.language);
+
+    return { file: task.file, scan, aiAnalysis };
+}
@@ -0,0 +1,22 @@
+/**
+ * Scan Worker Thread Entry Point
+ * Receives ScanTask messages from the pool and replies with their results
+ */
+
+import { parentPort } from 'worker_threads';
+import { loadTaskRules, runScanTask, ScanTask } from './scanTask.js';
+
+if (parentPort) {
+    const port = parentPort;
+    port.on('message', async (message: { id: number; task: ScanTask }) => {
+        try {
+            // Plugins are imported before the task's hard time limit starts
+            const customRules = await loadTaskRules(message.task);
+            port.postMessage({ id: message.id, started: true });
+            const result = await runScanTask(message.task, customRules);
+            port.postMessage({ id: message.id, result });
+        } catch (error: any) {
+            port.postMessage({ id: message.id, error: error?.message || String(error) });
+        }
+    });
+}
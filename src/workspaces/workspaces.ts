@@ -0,0 +1,284 @@
+/**
+ * Monorepo Workspaces
+ * Detects packages (npm/yarn/pnpm, Lerna, Nx, go.work, Cargo) and rolls scan results up per package
+ */
+
+import { access, readFile } from 'fs/promises';
+import { basename, join, sep } from 'path';
+import { glob } from 'glob';
+import { parse as parseYaml } from 'yaml';
+import { aggregateResults, FileScanResult, ScanResult } from '../scanner.js';
+import { BusinessImpact } from '../calculators/businessImpact.js';
+import { CostModel } from '../config/config.js';
+import { BUILTIN_IGNORES } from '../discovery/fileDiscovery.js';
+
+export type WorkspaceKind = 'npm' | 'yarn' | 'pnpm' | 'lerna' | 'nx' | 'go' | 'cargo' | 'root';
+
+export interface Workspace {
+    name: string;
+    path: string; // directory relative to the repository root, posix separators
+    kind: WorkspaceKind;
+}
+
+export interface WorkspaceSummary extends Workspace {
+    files: number;
+    lines: number;
+    totalIssues: number;
+    criticalIssues: number;
+    technicalDebt: ScanResult['summary']['technicalDebt'];
+    testCoverage: number;
+    businessImpact: BusinessImpact;
+}
+
+// Files outside every detected package are reported under this pseudo-workspace
+export const ROOT_WORKSPACE: Workspace = { name: '(root)', path: '.', kind: 'root' };
+
+function toPosix(path: string): string {
+    return path.split(sep).join('/');
+}
+
+async function readText(path: string): Promise<string | null> {
+    try {
+        return await readFile(path, 'utf-8');
+    } catch {
+        return null;
+    }
+}
+
+async function readJson(path: string): Promise<any | null> {
+    const raw = await readText(path);
+    if (raw === null) return null;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return null;
+    }
+}
+
+async function exists(path: string): Promise<boolean> {
+    try {
+        await access(path);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Expand workspace globs (with `!` negations) to package directories containing `marker`
+ */
+async function expandPackageDirs(repoPath: string, patterns: string[], marker: string): Promise<string[]> {
+    const includes = patterns.filter(p => !p.startsWith('!')).map(p => p.replace(/^\.\//, '').replace(/\/+$/, ''));
+    const excludes = patterns.filter(p => p.startsWith('!')).map(p => p.substring(1).replace(/^\.\//, '').replace(/\/+$/, ''));
+    if (includes.length === 0) return [];
+
+    const dirs = await glob(includes, { cwd: repoPath, ignore: [...BUILTIN_IGNORES, ...excludes] });
+    const packages: string[] = [];
+    for (const dir of dirs.map(toPosix)) {
+        if (dir !== '.' && dir !== '' && await exists(join(repoPath, dir, marker))) {
+            packages.push(dir);
+        }
+    }
+    return packages.sort();
+}
+
+/**
+ * Extract the section body of a TOML table such as `[workspace]`
+ */
+function tomlSection(content: string, section: string): string {
+    const header = content.search(new RegExp(`^\\[${section.replace('.', '\\.')}\\]\\s*$`, 'm'));
+    if (header === -1) return '';
+    const body = content.substring(content.indexOf('\n', header) + 1);
+    const next = body.search(/^\[/m);
+    return next === -1 ? body : body.substring(0, next);
+}
+
+function tomlStringArray(section: string, key: string): string[] {
+    const match = section.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'));
+    if (!match) return [];
+    return [...match[1].matchAll(/"([^"]*)"|'([^']*)'/g)].map(m => m[1] ?? m[2]);
+}
+
+function tomlString(section: string, key: string): string | undefined {
+    return section.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']*)["']`, 'm'))?.[1];
+}
+
+async function packageJsonName(repoPath: string, dir: string): Promise<string> {
+    const pkg = await readJson(join(repoPath, dir, 'package.json'));
+    return typeof pkg?.name === 'string' ? pkg.name : basename(dir);
+}
+
+async function detectJsWorkspaces(repoPath: string): Promise<Workspace[]> {
+    const workspaces: Workspace[] = [];
+
+    const pnpm = await readText(join(repoPath, 'pnpm-workspace.yaml'));
+    if (pnpm !== null) {
+        let patterns: string[] = [];
+        try {
+            patterns = parseYaml(pnpm)?.packages ?? [];
+        } catch {
+            // Malformed workspace file: fall through to the other managers
+        }
+        for (const dir of await expandPackageDirs(repoPath, patterns, 'package.json')) {
+            workspaces.push({ name: await packageJsonName(repoPath, dir), path: dir, kind: 'pnpm' });
+        }
+    }
+
+    const rootPackage = await readJson(join(repoPath, 'package.json'));
+    const declared = rootPackage?.workspaces;
+    const patterns: string[] = Array.isArray(declared) ? declared : Array.isArray(declared?.packages) ? declared.packages : [];
+    if (patterns.length > 0) {
+        const kind = await exists(join(repoPath, 'yarn.lock')) ? 'yarn' : 'npm';
+        for (const dir of await expandPackageDirs(repoPath, patterns, 'package.json')) {
+            workspaces.push({ name: await packageJsonName(repoPath, dir), path: dir, kind });
+        }
+    }
+
+    const lerna = await readJson(join(repoPath, 'lerna.json'));
+    if (lerna) {
+        const lernaPatterns: string[] = Array.isArray(lerna.packages) ? lerna.packages : ['packages/*'];
+        for (const dir of await expandPackageDirs(repoPath, lernaPatterns, 'package.json')) {
+            workspaces.push({ name: await packageJsonName(repoPath, dir), path: dir, kind: 'lerna' });
+        }
+    }
+
+    return workspaces;
+}
+
+async function detectNxProjects(repoPath: string): Promise<Workspace[]> {
+    if (!await exists(join(repoPath, 'nx.json'))) return [];
+    const workspaces: Workspace[] = [];
+
+    // Older Nx layouts list projects in workspace.json
+    const workspaceJson = await readJson(join(repoPath, 'workspace.json'));
+    for (const [name, project] of Object.entries<any>(workspaceJson?.projects ?? {})) {
+        const dir = typeof project === 'string' ? project : project?.root;
+        if (typeof dir === 'string' && dir && dir !== '.') {
+            workspaces.push({ name, path: toPosix(dir).replace(/\/+$/, ''), kind: 'nx' });
+        }
+    }
+
+    const projectFiles = await glob('**/project.json', { cwd: repoPath, ignore: BUILTIN_IGNORES });
+    for (const file of projectFiles.map(toPosix).sort()) {
+        const dir = file.substring(0, file.lastIndexOf('/'));
+        if (!dir) continue;
+        const project = await readJson(join(repoPath, file));
+        workspaces.push({ name: typeof project?.name === 'string' ? project.name : basename(dir), path: dir, kind: 'nx' });
+    }
+
+    return workspaces;
+}
+
+async function detectGoWorkspaces(repoPath: string): Promise<Workspace[]> {
+    const goWork = await readText(join(repoPath, 'go.work'));
+    if (goWork === null) return [];
+
+    // `use ./a` or `use ( ./a ./b )`
+    const dirs: string[] = [];
+    for (const match of goWork.matchAll(/^\s*use\s+(?:\(([^)]*)\)|(\S+))/gm)) {
+        const entries = match[1] !== undefined ? match[1].split('\n') : [match[2]];
+        for (const entry of entries) {
+            const dir = entry.replace(/\/\/.*$/, '').trim().replace(/^\.\//, '').replace(/\/+$/, '');
+            if (dir && dir !== '.') dirs.push(toPosix(dir));
+        }
+    }
+
+    const workspaces: Workspace[] = [];
+    for (const dir of dirs) {
+        const goMod = await readText(join(repoPath, dir, 'go.mod'));
+        if (goMod === null) continue;
+        const module = goMod.match(/^module\s+(\S+)/m)?.[1];
+        workspaces.push({ name: module ?? basename(dir), path: dir, kind: 'go' });
+    }
+    return workspaces;
+}
+
+async function detectCargoWorkspaces(repoPath: string): Promise<Workspace[]> {
+    const cargoToml = await readText(join(repoPath, 'Cargo.toml'));
+    if (cargoToml === null) return [];
+
+    const section = tomlSection(cargoToml, 'workspace');
+    const members = tomlStringArray(section, 'members');
+    const excluded = tomlStringArray(section, 'exclude').map(p => `!${p}`);
+
+    const workspaces: Workspace[] = [];
+    for (const dir of await expandPackageDirs(repoPath, [...members, ...excluded], 'Cargo.toml')) {
+        const manifest = await readText(join(repoPath, dir, 'Cargo.toml')) ?? '';
+        const name = tomlString(tomlSection(manifest, 'package'), 'name');
+        workspaces.push({ name: name ?? basename(dir), path: dir, kind: 'cargo' });
+    }
+    return workspaces;
+}
+
+/**
+ * Detect monorepo packages. A directory claimed by several tools is reported once,
+ * preferring the package manager over task runners (pnpm/npm/yarn, Lerna, Nx, Go, Cargo).
+ */
+export async function detectWorkspaces(repoPath: string): Promise<Workspace[]> {
+    const detected = [
+        ...await detectJsWorkspaces(repoPath),
+        ...await detectNxProjects(repoPath),
+        ...await detectGoWorkspaces(repoPath),
+        ...await detectCargoWorkspaces(repoPath)
+    ];
+
+    const byPath = new Map<string, Workspace>();
+    for (const workspace of detected) {
+        if (!byPath.has(workspace.path)) {
+            byPath.set(workspace.path, workspace);
+        }
+    }
+    return [...byPath.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Find the innermost workspace containing a repository-relative file
+ */
+export function findWorkspace(workspaces: Workspace[], file: string): Workspace {
+    const posixFile = toPosix(file);
+    let match = ROOT_WORKSPACE;
+    let matchLength = 0;
+    for (const workspace of workspaces) {
+        if (posixFile.startsWith(`${workspace.path}/`) && workspace.path.length > matchLength) {
+            match = workspace;
+            matchLength = workspace.path.length;
+        }
+    }
+    return match;
+}
+
+/**
+ * Aggregate file results separately for each workspace. Workspaces without
+ * scanned files are omitted; files outside every package go to ROOT_WORKSPACE.
+ */
+export function summarizeWorkspaces(
+    fileResults: Array<FileScanResult & { file: string }>,
+    workspaces: Workspace[],
+    testCoverage: Map<string, number>,
+    costModel: Partial<CostModel> = {}
+): WorkspaceSummary[] {
+    const groups = new Map<Workspace, Array<FileScanResult & { file: string }>>();
+    for (const result of fileResults) {
+        const workspace = findWorkspace(workspaces, result.file);
+        const group = groups.get(workspace) ?? [];
+        group.push(result);
+        groups.set(workspace, group);
+    }
+
+    return [...workspaces, ROOT_WORKSPACE]
+        .filter(workspace => groups.has(workspace))
+        .map(workspace => {
+            const coverage = testCoverage.get(workspace.path) ?? 0;
+            const { summary, businessImpact } = aggregateResults(groups.get(workspace)!, coverage, costModel);
+            return {
+                ...workspace,
+                files: summary.totalFiles,
+                lines: summary.totalLines,
+                totalIssues: summary.totalIssues,
+                criticalIssues: summary.criticalIssues,
+                technicalDebt: summary.technicalDebt,
+                testCoverage: coverage,
+                businessImpact
+            };
+        });
+}
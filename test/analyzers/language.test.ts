@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, detectShebang, getLanguageInfo, isCommentLine } from '../../src/analyzers/language.js';
+import { calculateCyclomaticComplexity, countFunctions } from '../../src/analyzers/complexity.js';
+
+describe('detectLanguage', () => {
+    it('maps extensions case-insensitively', () => {
+        expect(detectLanguage('src/app.TS', '')).toBe('typescript');
+        expect(detectLanguage('src/app.mjs', '')).toBe('javascript');
+        expect(detectLanguage('lib/util.rs', '')).toBe('rust');
+        expect(detectLanguage('C:\\repo\\main.go', '')).toBe('go');
+    });
+
+    it('lets an unambiguous extension win over the shebang', () => {
+        expect(detectLanguage('tool.py', '#!/bin/sh\n')).toBe('python');
+    });
+
+    it('decides .h headers between C and C++ from their content', () => {
+        expect(detectLanguage('include/list.h', 'struct list { int size; };\n')).toBe('c');
+        expect(detectLanguage('include/list.h', 'namespace acme {\nclass List {};\n}\n')).toBe('cpp');
+        expect(detectLanguage('include/vec.h', 'template <typename T> struct Vec;\n')).toBe('cpp');
+    });
+
+    it('does not guess a language for Objective-C or MATLAB .m files', () => {
+        expect(detectLanguage('Sources/View.m', '#import <UIKit/UIKit.h>\n@implementation View\n@end\n')).toBe('unknown');
+        expect(detectLanguage('analysis/fit.m', 'x = linspace(0, 1, 10);\nplot(x, x.^2);\n')).toBe('unknown');
+    });
+
+    it('reads the shebang of extensionless scripts', () => {
+        expect(detectLanguage('bin/deploy', '#!/usr/bin/env bash\nset -e\n')).toBe('shell');
+        expect(detectLanguage('bin/serve', '#!/usr/bin/env node\nrequire("./server");\n')).toBe('javascript');
+        expect(detectLanguage('scripts/migrate', '#!/usr/local/bin/python3.12\nimport sys\n')).toBe('python');
+    });
+
+    it('recognizes well-known extensionless file names', () => {
+        expect(detectLanguage('Rakefile', 'task :default\n')).toBe('ruby');
+    });
+
+    it('falls back to content heuristics', () => {
+        expect(detectLanguage('main', 'package main\n\nfunc main() {}\n')).toBe('go');
+        expect(detectLanguage('lib', 'use std::io;\nfn main() {\n    let mut x = 1;\n}\n')).toBe('rust');
+        expect(detectLanguage('index', '<?php\necho "hi";\n')).toBe('php');
+        expect(detectLanguage('task', 'def run(x):\n    return x\n')).toBe('python');
+        expect(detectLanguage('types', 'interface User {\n  name: string;\n}\n')).toBe('typescript');
+        expect(detectLanguage('script', 'const x = require("x");\n')).toBe('javascript');
+    });
+
+    it('returns unknown for unrecognized files', () => {
+        expect(detectLanguage('README', 'Just some prose.\n')).toBe('unknown');
+        expect(detectLanguage('data.bin', '')).toBe('unknown');
+    });
+});
+
+describe('detectShebang', () => {
+    it('skips env options and assignments', () => {
+        expect(detectShebang('#!/usr/bin/env -S NODE_OPTIONS=--x deno run\n')).toBe('typescript');
+        expect(detectShebang('#!/usr/bin/env -S python3 -u\n')).toBe('python');
+    });
+
+    it('returns null without a known interpreter', () => {
+        expect(detectShebang('#!/usr/bin/env perl\n')).toBeNull();
+        expect(detectShebang('console.log(1)\n')).toBeNull();
+    });
+});
+
+describe('language info', () => {
+    it('provides the comment syntax of each language', () => {
+        expect(getLanguageInfo('python').lineComments).toEqual(['#']);
+        expect(getLanguageInfo('php').lineComments).toEqual(['//', '#']);
+        expect(isCommentLine('  # note', 'python')).toBe(true);
+        expect(isCommentLine('  # note', 'typescript')).toBe(false);
+        expect(isCommentLine(' * continued doc comment', 'java')).toBe(true);
+    });
+});
+
+describe('complexity tables', () => {
+    it('counts branches with the grammar of the canonical language', () => {
+        const ruby = 'if a\n  x\nelsif b\n  y\nend\nuntil done\nend\n';
+        expect(calculateCyclomaticComplexity(ruby, 'ruby')).toBe(4);
+
+        const python = 'if a and b:\n    pass\nelif c:\n    pass\n';
+        expect(calculateCyclomaticComplexity(python, 'python')).toBe(4);
+    });
+
+    it('uses a shared grammar for languages aliased to another', () => {
+        const source = 'int f(int a) {\n    if (a && b) { return 1; }\n    return 0;\n}\n';
+        expect(calculateCyclomaticComplexity(source, 'cpp')).toBe(calculateCyclomaticComplexity(source, 'java'));
+        expect(countFunctions(source, 'c')).toBe(countFunctions(source, 'java'));
+    });
+
+    it('counts functions per language', () => {
+        expect(countFunctions('def a(x):\n    pass\n\ndef b():\n    pass\n', 'python')).toBe(2);
+        expect(countFunctions('func (s *Server) Start() {}\nfunc main() {}\n', 'go')).toBe(2);
+        expect(countFunctions('deploy() {\n  echo hi\n}\nfunction build {\n}\n', 'shell')).toBe(2);
+    });
+});
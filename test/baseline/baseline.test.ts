@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { applyBaseline, createBaseline } from '../../src/baseline/baseline.js';
+import { ScanResult } from '../../src/scanner.js';
+
+function issue(id: string, file: string, line: number, effort: number = 10): ScanResult['issues'][number] {
+    return {
+        id,
+        type: 'magic_number',
+        severity: 'minor',
+        category: 'maintainability',
+        file,
+        line,
+        message: `Magic number in ${file}`,
+        effort,
+        businessImpact: 'LOW'
+    };
+}
+
+function scanWith(issues: ScanResult['issues']): ScanResult {
+    return { issues } as ScanResult;
+}
+
+describe('createBaseline', () => {
+    it('records issues sorted by file and line', () => {
+        const baseline = createBaseline([issue('b', 'src/b.ts', 1), issue('a2', 'src/a.ts', 9), issue('a1', 'src/a.ts', 2)]);
+        expect(baseline.issues.map(i => i.id)).toEqual(['a1', 'a2', 'b']);
+    });
+});
+
+describe('applyBaseline', () => {
+    const baseline = createBaseline([issue('x', 'src/a.ts', 1), issue('x', 'src/a.ts', 5), issue('y', 'src/b.ts', 3)]);
+
+    it('marks matched issues as existing and the rest as new', () => {
+        const scan = scanWith([issue('x', 'src/a.ts', 2), issue('z', 'src/a.ts', 8, 25)]);
+        const comparison = applyBaseline(scan, baseline, '.techdebt/baseline.json');
+
+        expect(scan.issues.map(i => i.baselineStatus)).toEqual(['existing', 'new']);
+        expect(comparison).toMatchObject({ newIssues: 1, existingIssues: 1, newDebtMinutes: 25, fixedIssues: 2 });
+        expect(comparison.fixed.map(f => f.id).sort()).toEqual(['x', 'y']);
+    });
+
+    it('matches repeated fingerprints one-to-one', () => {
+        const scan = scanWith([issue('x', 'src/a.ts', 1), issue('x', 'src/a.ts', 5), issue('x', 'src/a.ts', 9)]);
+        const comparison = applyBaseline(scan, baseline, '.techdebt/baseline.json');
+
+        expect(scan.issues.map(i => i.baselineStatus)).toEqual(['existing', 'existing', 'new']);
+        expect(comparison.fixedIssues).toBe(1);
+    });
+
+    it('does not report fixed issues for partial (PR mode) scans', () => {
+        const scan = scanWith([issue('z', 'src/a.ts', 8)]);
+        const comparison = applyBaseline(scan, baseline, '.techdebt/baseline.json', { partial: true });
+
+        expect(comparison).toMatchObject({ newIssues: 1, existingIssues: 0, fixedIssues: null, fixed: [] });
+    });
+
+    it('does not count issues of files the scan did not analyze as fixed', () => {
+        const scan = scanWith([issue('z', 'src/a.ts', 8)]);
+        const comparison = applyBaseline(scan, baseline, '.techdebt/baseline.json', { analyzedFiles: new Set(['src/a.ts']) });
+
+        // src/b.ts was skipped (e.g. timed out), so its issue is neither matched nor fixed
+        expect(comparison.fixed.map(f => f.file)).toEqual(['src/a.ts', 'src/a.ts']);
+        expect(comparison.fixedIssues).toBe(2);
+    });
+
+    it('counts issues of deleted files as fixed', () => {
+        const scan = scanWith([]);
+        const comparison = applyBaseline(scan, baseline, '.techdebt/baseline.json', {
+            analyzedFiles: new Set(),
+            deletedFiles: new Set(['src/b.ts'])
+        });
+
+        expect(comparison.fixed.map(f => f.id)).toEqual(['y']);
+    });
+});
@@ -0,0 +1,77 @@
+import { mkdtemp, rm, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    computeCacheFingerprint,
+    getCachedResult,
+    hashContent,
+    loadScanCache,
+    saveScanCache,
+    setCachedResult
+} from '../../src/cache/scanCache.js';
+import { FileScanResult } from '../../src/scanner.js';
+
+function result(lines: number): FileScanResult {
+    return { metrics: { lines } } as unknown as FileScanResult;
+}
+
+describe('computeCacheFingerprint', () => {
+    it('is stable for the same configuration', async () => {
+        expect(await computeCacheFingerprint({ rules: { todo: 'off' } })).toBe(await computeCacheFingerprint({ rules: { todo: 'off' } }));
+    });
+
+    it('changes with the rule configuration and plugin hashes', async () => {
+        const base = await computeCacheFingerprint({ rules: {}, plugins: { '/p/rule.mjs': 'aaa' } });
+
+        expect(await computeCacheFingerprint({ rules: { todo: 'off' }, plugins: { '/p/rule.mjs': 'aaa' } })).not.toBe(base);
+        expect(await computeCacheFingerprint({ rules: {}, plugins: { '/p/rule.mjs': 'bbb' } })).not.toBe(base);
+    });
+});
+
+describe('scan cache', () => {
+    let repoPath: string;
+
+    beforeEach(async () => {
+        repoPath = await mkdtemp(join(tmpdir(), 'techdebt-cache-'));
+    });
+
+    afterEach(async () => {
+        await rm(repoPath, { recursive: true, force: true });
+    });
+
+    it('counts hits for unchanged content and misses for changed or unknown files', async () => {
+        const cache = await loadScanCache(repoPath, 'fp');
+        setCachedResult(cache, 'a.ts', hashContent('one'), result(1));
+
+        expect(getCachedResult(cache, 'a.ts', hashContent('one'))).toEqual(result(1));
+        expect(getCachedResult(cache, 'a.ts', hashContent('two'))).toBeUndefined();
+        expect(getCachedResult(cache, 'b.ts', hashContent('one'))).toBeUndefined();
+        expect(cache).toMatchObject({ hits: 1, misses: 2 });
+    });
+
+    it('reloads saved entries with the same fingerprint and discards them with another', async () => {
+        await writeFile(join(repoPath, 'a.ts'), 'one');
+        const cache = await loadScanCache(repoPath, 'fp1');
+        setCachedResult(cache, 'a.ts', hashContent('one'), result(1));
+        await saveScanCache(cache);
+
+        expect((await loadScanCache(repoPath, 'fp1')).entries.get('a.ts')?.result).toEqual(result(1));
+        expect((await loadScanCache(repoPath, 'fp2')).entries.size).toBe(0);
+    });
+
+    it('prunes entries of deleted files and keeps files the scan did not analyze', async () => {
+        await writeFile(join(repoPath, 'kept.ts'), 'kept');
+        await writeFile(join(repoPath, 'deleted.ts'), 'deleted');
+        const first = await loadScanCache(repoPath, 'fp');
+        setCachedResult(first, 'kept.ts', hashContent('kept'), result(1));
+        setCachedResult(first, 'deleted.ts', hashContent('deleted'), result(2));
+        await saveScanCache(first);
+
+        // A narrower scan that touches neither file, after one of them is deleted
+        await unlink(join(repoPath, 'deleted.ts'));
+        await saveScanCache(await loadScanCache(repoPath, 'fp'));
+
+        expect([...(await loadScanCache(repoPath, 'fp')).entries.keys()]).toEqual(['kept.ts']);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { rankHotspots, worstFilesFromHotspots } from '../../src/calculators/hotspots.js';
+import { calculateFileScore, ScanResult } from '../../src/scanner.js';
+
+type FileMetrics = ScanResult['fileMetrics'][number];
+
+function metrics(file: string, cyclomatic: number, cognitive: number, churn?: [commits: number, added: number, deleted: number]): FileMetrics {
+    return {
+        file,
+        language: 'typescript',
+        lines: 100,
+        complexity: { cyclomatic, cognitive, functions: 1, avgComplexityPerFunction: cyclomatic },
+        issues: 2,
+        debtMinutes: 30,
+        churn: churn && { commits: churn[0], linesAdded: churn[1], linesDeleted: churn[2] }
+    };
+}
+
+describe('rankHotspots', () => {
+    it('orders files by commits × complexity with scores relative to the top hotspot', () => {
+        const hotspots = rankHotspots([
+            metrics('src/a.ts', 10, 10, [2, 5, 5]),
+            metrics('src/b.ts', 5, 5, [4, 40, 10]),
+            metrics('src/c.ts', 30, 30, [1, 1, 0])
+        ]);
+
+        expect(hotspots.map(h => [h.file, h.score, h.relativeScore])).toEqual([
+            ['src/c.ts', 60, 100],
+            ['src/b.ts', 40, 66.7],
+            ['src/a.ts', 40, 66.7]
+        ]);
+        expect(hotspots[1]).toMatchObject({ commits: 4, linesChanged: 50, issues: 2, debtMinutes: 30 });
+    });
+
+    it('breaks ties by lines changed, then by path', () => {
+        const hotspots = rankHotspots([
+            metrics('src/z.ts', 4, 0, [1, 1, 1]),
+            metrics('src/y.ts', 4, 0, [1, 1, 1]),
+            metrics('src/x.ts', 2, 0, [2, 10, 0])
+        ]);
+
+        expect(hotspots.map(h => h.file)).toEqual(['src/x.ts', 'src/y.ts', 'src/z.ts']);
+    });
+
+    it('leaves out files without churn data, changes or complexity', () => {
+        const hotspots = rankHotspots([
+            metrics('src/untracked.ts', 10, 10),
+            metrics('src/stable.ts', 10, 10, [0, 0, 0]),
+            metrics('src/trivial.ts', 0, 0, [5, 20, 0]),
+            metrics('src/hot.ts', 1, 0, [1, 1, 0])
+        ]);
+
+        expect(hotspots.map(h => h.file)).toEqual(['src/hot.ts']);
+        expect(rankHotspots([metrics('src/untracked.ts', 10, 10)])).toEqual([]);
+    });
+
+    it('keeps only the top hotspots', () => {
+        const files = Array.from({ length: 5 }, (_, i) => metrics(`src/f${i}.ts`, i + 1, 0, [1, 1, 0]));
+
+        expect(rankHotspots(files, 2).map(h => h.file)).toEqual(['src/f4.ts', 'src/f3.ts']);
+    });
+});
+
+describe('worstFilesFromHotspots', () => {
+    it('lists up to ten files in hotspot order with their health score', () => {
+        const fileMetrics = Array.from({ length: 12 }, (_, i) => metrics(`src/f${i}.ts`, i + 1, 1, [2, 1, 0]));
+        const worst = worstFilesFromHotspots(rankHotspots(fileMetrics), fileMetrics, 90);
+
+        expect(worst).toHaveLength(10);
+        expect(worst[0]).toEqual({
+            file: 'src/f11.ts',
+            score: calculateFileScore(fileMetrics[11].complexity, 2, 100),
+            reason: 'Hotspot: 2 commit(s) in 90 days × complexity 13'
+        });
+        expect(worst.map(w => w.file)).not.toContain('src/f0.ts');
+    });
+
+    it('is empty without hotspots', () => {
+        expect(worstFilesFromHotspots([], [metrics('src/a.ts', 5, 5)], 90)).toEqual([]);
+    });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseOptions, runCli, scanExitCode } from '../src/cli.js';
+import { runScanRepo } from '../src/tools/scan.js';
+import { runDependencyAudit } from '../src/tools/audit.js';
+import { ScanResult } from '../src/scanner.js';
+
+vi.mock('../src/tools/scan.js', () => ({ runScanRepo: vi.fn(), createRepositoryBaseline: vi.fn() }));
+vi.mock('../src/tools/audit.js', () => ({ runDependencyAudit: vi.fn(), formatDependencyAudit: vi.fn(() => 'audit') }));
+
+function scanWith(severities: string[], gate?: 'passed' | 'failed'): ScanResult {
+    return {
+        issues: severities.map(severity => ({ severity })),
+        qualityGate: gate ? { status: gate, conditions: [] } : undefined
+    } as unknown as ScanResult;
+}
+
+describe('parseOptions', () => {
+    it('applies defaults', () => {
+        expect(parseOptions({})).toMatchObject({ format: 'markdown', cache: true, projectName: 'Project' });
+    });
+
+    it('reads repeated and negated flags', () => {
+        const options = parseOptions({ include: ['src/**/*.ts', 'lib/**/*.js'], 'no-cache': true, workers: '4', 'fail-on': 'major' });
+        expect(options).toMatchObject({ include: ['src/**/*.ts', 'lib/**/*.js'], cache: false, workers: 4, failOn: 'major' });
+    });
+
+    it('rejects invalid values as usage errors', () => {
+        expect(() => parseOptions({ format: 'xml' })).toThrow(expect.objectContaining({ usage: true }));
+        expect(() => parseOptions({ 'fail-on': 'huge' })).toThrow('--fail-on must be one of');
+        expect(() => parseOptions({ workers: '0' })).toThrow('--workers must be a positive integer');
+        expect(() => parseOptions({ limit: '2.5' })).toThrow('--limit must be a positive integer');
+    });
+});
+
+describe('scanExitCode', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('returns 0 without a failed gate or threshold', () => {
+        expect(scanExitCode(scanWith(['minor'], 'passed'))).toBe(0);
+        expect(scanExitCode(scanWith(['minor', 'info']), 'major')).toBe(0);
+    });
+
+    it('returns 1 when the quality gate failed', () => {
+        expect(scanExitCode(scanWith([], 'failed'))).toBe(1);
+    });
+
+    it('returns 1 when an issue reaches the --fail-on severity', () => {
+        expect(scanExitCode(scanWith(['minor', 'critical']), 'major')).toBe(1);
+        expect(scanExitCode(scanWith(['major']), 'major')).toBe(1);
+    });
+});
+
+describe('runCli', () => {
+    let stdout: string[];
+    let stderr: string[];
+
+    beforeEach(() => {
+        stdout = [];
+        stderr = [];
+        vi.spyOn(console, 'log').mockImplementation((line: string) => { stdout.push(line); });
+        vi.spyOn(console, 'error').mockImplementation((line: string) => { stderr.push(line); });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.mocked(runScanRepo).mockReset();
+        vi.mocked(runDependencyAudit).mockReset();
+    });
+
+    it('exits 0 for help', async () => {
+        await expect(runCli(['--help'])).resolves.toBe(0);
+        expect(stdout.join('\n')).toContain('Usage: techdebt-insight');
+    });
+
+    it('passes scan options through and exits 0 on success', async () => {
+        vi.mocked(runScanRepo).mockResolvedValue({ scanResult: scanWith(['minor']), executiveSummary: 'summary' } as any);
+
+        await expect(runCli(['scan', '.', '-f', 'json', '--base', 'origin/main', '-i', 'src/**'])).resolves.toBe(0);
+        expect(runScanRepo).toHaveBeenCalledWith(
+            expect.objectContaining({ baseRef: 'origin/main', includeGlobs: ['src/**'], writeReport: false }),
+            expect.anything()
+        );
+        expect(JSON.parse(stdout[0])).toMatchObject({ issues: [{ severity: 'minor' }] });
+    });
+
+    it('exits 1 when the scan fails its quality gate', async () => {
+        vi.mocked(runScanRepo).mockResolvedValue({ scanResult: scanWith([], 'failed'), executiveSummary: 'summary', reportPath: 'r.md' } as any);
+
+        await expect(runCli(['scan'])).resolves.toBe(1);
+    });
+
+    it('exits 1 when the audit finds critical vulnerabilities', async () => {
+        vi.mocked(runDependencyAudit).mockResolvedValue({ summary: { criticalVulnerabilities: 2 } } as any);
+
+        await expect(runCli(['audit'])).resolves.toBe(1);
+    });
+
+    it('exits 2 when the command fails', async () => {
+        vi.mocked(runScanRepo).mockRejectedValue(new Error('not a git repository'));
+
+        await expect(runCli(['scan'])).resolves.toBe(2);
+        expect(stderr).toContain('techdebt-insight: not a git repository');
+    });
+
+    it.each([
+        [['lint']],
+        [['scan', '.', 'extra']],
+        [['scan', '--unknown']],
+        [['scan', '--workers', 'many']],
+        [['report', '--base', 'origin/main']]
+    ])('exits 2 with a usage hint for %j', async (argv) => {
+        await expect(runCli(argv)).resolves.toBe(2);
+        expect(stderr).toContain(`Run 'techdebt-insight --help' for usage.`);
+        expect(runScanRepo).not.toHaveBeenCalled();
+    });
+});
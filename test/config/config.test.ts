@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { applyRuleOverrides, isRuleEnabled, parseConfig, resolveRuleConfig } from '../../src/config/config.js';
+
+describe('parseConfig', () => {
+    it('applies defaults to an empty file', () => {
+        const config = parseConfig('', '.techdebtrc.yaml');
+        expect(config.exclude).toEqual([]);
+        expect(config.skipGenerated).toBe(true);
+        expect(config.costModel).toEqual({ hourlyRate: 75, minutesPerLine: 30 });
+    });
+
+    it('reads YAML and JSON', () => {
+        const yaml = parseConfig('exclude: [fixtures/**]\nrules:\n  magic_number:\n    enabled: false\n', '.techdebtrc.yml');
+        const json = parseConfig('{"exclude": ["fixtures/**"], "rules": {"magic_number": {"enabled": false}}}', '.techdebtrc.json');
+
+        expect(yaml.exclude).toEqual(['fixtures/**']);
+        expect(json.rules).toEqual(yaml.rules);
+        expect(isRuleEnabled(yaml.rules, 'magic_number')).toBe(false);
+        expect(isRuleEnabled(yaml.rules, 'deep_nesting')).toBe(true);
+    });
+
+    it('names the offending setting when validation fails', () => {
+        expect(() => parseConfig('rules:\n  long_method:\n    maxLines: -5\n', '.techdebtrc.yaml'))
+            .toThrow(/Invalid configuration in \.techdebtrc\.yaml:\n {2}- rules\.long_method\.maxLines:/);
+        expect(() => parseConfig('unknownKey: true', '.techdebtrc.yaml')).toThrow(/unknownKey/);
+    });
+
+    it('reports syntax errors with the file name', () => {
+        expect(() => parseConfig('{ not json', '.techdebtrc.json')).toThrow(/^Failed to parse \.techdebtrc\.json:/);
+    });
+});
+
+describe('resolveRuleConfig', () => {
+    const config = parseConfig([
+        'rules:',
+        '  magic_number: { severity: minor, maxPerFile: 5 }',
+        '  long_method: { maxLines: 80 }',
+        'overrides:',
+        '  - files: ["**/*.test.ts", "test/**"]',
+        '    rules:',
+        '      magic_number: { enabled: false }',
+        '  - files: ["src/api/**"]',
+        '    rules:',
+        '      magic_number: { severity: critical }',
+        '      long_method: { effort: 45 }'
+    ].join('\n'), '.techdebtrc.yaml');
+
+    it('returns the base rules for paths no override matches', () => {
+        expect(resolveRuleConfig(config, 'src/core/a.ts')).toBe(config.rules);
+    });
+
+    it('merges matching overrides setting by setting', () => {
+        expect(resolveRuleConfig(config, 'src/api/users.ts')).toMatchObject({
+            magic_number: { severity: 'critical', maxPerFile: 5 },
+            long_method: { maxLines: 80, effort: 45 }
+        });
+        expect(resolveRuleConfig(config, 'src\\util.test.ts').magic_number).toEqual({ severity: 'minor', maxPerFile: 5, enabled: false });
+    });
+
+    it('applies later overrides on top of earlier ones', () => {
+        const rules = resolveRuleConfig(config, 'src/api/users.test.ts');
+        expect(rules.magic_number).toEqual({ severity: 'critical', maxPerFile: 5, enabled: false });
+        expect(config.rules.magic_number).toEqual({ severity: 'minor', maxPerFile: 5 });
+    });
+});
+
+describe('applyRuleOverrides', () => {
+    it('replaces configured severities and efforts only', () => {
+        const findings = [
+            { type: 'magic_number', severity: 'minor', effort: 5 },
+            { type: 'long_method', severity: 'major', effort: 30 }
+        ];
+
+        expect(applyRuleOverrides(findings, { magic_number: { severity: 'info' }, long_method: { effort: 60 } })).toEqual([
+            { type: 'magic_number', severity: 'info', effort: 5 },
+            { type: 'long_method', severity: 'major', effort: 60 }
+        ]);
+        expect(applyRuleOverrides(findings, undefined)).toEqual(findings);
+    });
+});
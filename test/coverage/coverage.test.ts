@@ -0,0 +1,102 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { coverageForFiles, loadCoverage } from '../../src/coverage/coverage.js';
+
+function lcovRecord(path: string, hit: number, found: number): string {
+    return `SF:${path}\nLF:${found}\nLH:${hit}\nend_of_record\n`;
+}
+
+describe('loadCoverage', () => {
+    let repoPath: string;
+
+    async function writeReport(path: string, content: string): Promise<void> {
+        await mkdir(dirname(join(repoPath, path)), { recursive: true });
+        await writeFile(join(repoPath, path), content);
+    }
+
+    beforeEach(async () => {
+        repoPath = await mkdtemp(join(tmpdir(), 'techdebt-coverage-'));
+    });
+
+    afterEach(async () => {
+        await rm(repoPath, { recursive: true, force: true });
+    });
+
+    it('returns null without coverage reports', async () => {
+        expect(await loadCoverage(repoPath, ['src/a.ts'])).toBeNull();
+    });
+
+    it('resolves report paths onto repository files', async () => {
+        await writeReport('coverage/lcov.info', lcovRecord(join(repoPath, 'src/a.ts'), 3, 4) + lcovRecord('src/b.ts', 1, 4));
+
+        const coverage = await loadCoverage(repoPath, ['src/a.ts', 'src/b.ts']);
+
+        expect(coverage?.summary).toMatchObject({ lines: { covered: 4, total: 8 }, lineCoverage: 50, files: 2, unmatchedFiles: 0 });
+        expect(coverage?.byFile.get('src/a.ts')?.lines).toEqual({ covered: 3, total: 4 });
+    });
+
+    it('leaves entries that match no repository file out of the totals', async () => {
+        await writeReport('coverage/lcov.info', lcovRecord('src/a.ts', 1, 4) + lcovRecord('vendor/lib/x.ts', 100, 100));
+
+        const coverage = await loadCoverage(repoPath, ['src/a.ts']);
+
+        expect(coverage?.summary).toMatchObject({ lines: { covered: 1, total: 4 }, lineCoverage: 25, files: 1, unmatchedFiles: 1 });
+    });
+
+    it('returns null when no entry matches a repository file', async () => {
+        await writeReport('coverage/lcov.info', lcovRecord('other/x.ts', 4, 4));
+
+        expect(await loadCoverage(repoPath, ['src/a.ts'])).toBeNull();
+    });
+
+    it('resolves entries only against the given files', async () => {
+        await writeReport('coverage/lcov.info', lcovRecord('lib/tasks/deploy.rake', 2, 4) + lcovRecord('src/a.ts', 4, 4));
+
+        const coverage = await loadCoverage(repoPath, ['lib/tasks/deploy.rake']);
+
+        expect(coverage?.summary).toMatchObject({ lines: { covered: 2, total: 4 }, files: 1, unmatchedFiles: 1 });
+    });
+
+    it('counts a file listed by several reports once', async () => {
+        await writeReport('coverage/lcov.info', lcovRecord('src/a.ts', 9, 10));
+        await writeReport('build/coverage/lcov.info', lcovRecord('src/a.ts', 2, 10));
+
+        const coverage = await loadCoverage(repoPath, ['src/a.ts']);
+
+        expect(coverage?.summary.reports.map(r => r.path)).toEqual(['build/coverage/lcov.info', 'coverage/lcov.info']);
+        expect(coverage?.summary).toMatchObject({ lines: { covered: 9, total: 10 }, files: 1, unmatchedFiles: 0 });
+    });
+
+    it('reads one of the formats Istanbul writes side by side', async () => {
+        await writeReport('coverage/lcov.info', lcovRecord('src/a.ts', 1, 2));
+        await writeReport('coverage/coverage-summary.json', JSON.stringify({
+            total: {},
+            'src/a.ts': { lines: { covered: 2, total: 2 } }
+        }));
+
+        const coverage = await loadCoverage(repoPath, ['src/a.ts']);
+
+        expect(coverage?.summary.reports).toEqual([{ path: 'coverage/lcov.info', format: 'lcov', files: 1 }]);
+    });
+
+    it('rejects configured reports that do not exist', async () => {
+        await expect(loadCoverage(repoPath, ['src/a.ts'], ['coverage/missing.info'])).rejects.toThrow('Coverage report not found');
+    });
+});
+
+describe('coverageForFiles', () => {
+    it('combines the line coverage of the given files', () => {
+        const coverage = {
+            summary: {} as never,
+            byFile: new Map([
+                ['pkg/a.ts', { path: 'pkg/a.ts', lines: { covered: 1, total: 4 }, branches: { covered: 0, total: 0 } }],
+                ['pkg/b.ts', { path: 'pkg/b.ts', lines: { covered: 3, total: 4 }, branches: { covered: 0, total: 0 } }]
+            ])
+        };
+
+        expect(coverageForFiles(coverage, ['pkg/a.ts', 'pkg/b.ts', 'pkg/c.ts'])).toBe(50);
+        expect(coverageForFiles(coverage, ['pkg/c.ts'])).toBeNull();
+    });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+    detectCoverageFormat,
+    parseCobertura,
+    parseGoCoverProfile,
+    parseIstanbulSummary,
+    parseJacoco,
+    parseLcov
+} from '../../src/coverage/parsers.js';
+
+describe('parseLcov', () => {
+    it('reads the LF/LH and BRF/BRH totals of each record', () => {
+        const report = parseLcov(['TN:', 'SF:src/a.ts', 'LF:10', 'LH:7', 'BRF:4', 'BRH:1', 'end_of_record'].join('\n'));
+
+        expect(report.files).toEqual([{ path: 'src/a.ts', lines: { covered: 7, total: 10 }, branches: { covered: 1, total: 4 } }]);
+    });
+
+    it('counts DA and BRDA lines when the totals are missing', () => {
+        const report = parseLcov([
+            'SF:src/a.ts',
+            'DA:1,3', 'DA:2,0', 'DA:3,1',
+            'BRDA:2,0,0,1', 'BRDA:2,0,1,0', 'BRDA:3,1,0,-',
+            'end_of_record'
+        ].join('\n'));
+
+        expect(report.files[0]).toMatchObject({ lines: { covered: 2, total: 3 }, branches: { covered: 1, total: 3 } });
+    });
+
+    it('keeps the best record of a file listed more than once', () => {
+        const report = parseLcov([
+            'SF:src/a.ts', 'LF:10', 'LH:2', 'end_of_record',
+            'SF:src/a.ts', 'LF:10', 'LH:8', 'end_of_record'
+        ].join('\n'));
+
+        expect(report.files).toHaveLength(1);
+        expect(report.files[0].lines).toEqual({ covered: 8, total: 10 });
+    });
+});
+
+describe('parseCobertura', () => {
+    it('collects lines and branch conditions per file with the declared sources', () => {
+        const report = parseCobertura(`<?xml version="1.0" ?>
+<coverage line-rate="0.5">
+  <sources><source>/work/app</source></sources>
+  <packages><package name="app"><classes>
+    <class name="A" filename="src/a.py">
+      <methods><method name="run"><lines><line number="1" hits="1"/></lines></method></methods>
+      <lines>
+        <line number="1" hits="1"/>
+        <line number="2" hits="0" branch="true" condition-coverage="50% (1/2)"/>
+      </lines>
+    </class>
+    <class name="Empty" filename="src/empty.py"/>
+  </classes></package></packages>
+</coverage>`, 'coverage.py');
+
+        expect(report).toEqual({
+            format: 'coverage.py',
+            sources: ['/work/app'],
+            files: [
+                { path: 'src/a.py', lines: { covered: 1, total: 2 }, branches: { covered: 1, total: 2 } },
+                { path: 'src/empty.py', lines: { covered: 0, total: 0 }, branches: { covered: 0, total: 0 } }
+            ]
+        });
+    });
+});
+
+describe('parseIstanbulSummary', () => {
+    it('reads every file entry except the total', () => {
+        const report = parseIstanbulSummary(JSON.stringify({
+            total: { lines: { covered: 5, total: 10 }, branches: { covered: 0, total: 0 } },
+            '/work/src/a.ts': { lines: { covered: 5, total: 10 }, branches: { covered: 1, total: 2 } }
+        }));
+
+        expect(report.files).toEqual([{ path: '/work/src/a.ts', lines: { covered: 5, total: 10 }, branches: { covered: 1, total: 2 } }]);
+    });
+});
+
+describe('parseJacoco', () => {
+    it('reads the LINE and BRANCH counters of each source file under its package path', () => {
+        const report = parseJacoco(`<report name="app">
+  <package name="com/acme">
+    <class name="com/acme/A"><counter type="LINE" missed="9" covered="9"/></class>
+    <sourcefile name="A.java">
+      <counter type="INSTRUCTION" missed="3" covered="30"/>
+      <counter type="BRANCH" missed="1" covered="3"/>
+      <counter type="LINE" missed="2" covered="8"/>
+    </sourcefile>
+  </package>
+</report>`);
+
+        expect(report.files).toEqual([{ path: 'com/acme/A.java', lines: { covered: 8, total: 10 }, branches: { covered: 3, total: 4 } }]);
+    });
+});
+
+describe('parseGoCoverProfile', () => {
+    it('counts statements and treats a block hit by any run as covered', () => {
+        const report = parseGoCoverProfile([
+            'mode: set',
+            'example.com/app/a.go:3.10,5.2 2 1',
+            'example.com/app/a.go:7.10,9.2 3 0',
+            'example.com/app/a.go:7.10,9.2 3 1',
+            'example.com/app/a.go:11.10,12.2 1 0'
+        ].join('\n'));
+
+        expect(report.files).toEqual([{ path: 'example.com/app/a.go', lines: { covered: 5, total: 6 }, branches: { covered: 0, total: 0 } }]);
+    });
+});
+
+describe('detectCoverageFormat', () => {
+    it('recognizes each supported format', () => {
+        expect(detectCoverageFormat('TN:\nSF:a.ts\nend_of_record\n')).toBe('lcov');
+        expect(detectCoverageFormat('mode: atomic\na.go:1.1,2.2 1 1\n')).toBe('go');
+        expect(detectCoverageFormat('{"total": {}}')).toBe('istanbul');
+        expect(detectCoverageFormat('<?xml version="1.0"?><report name="x"><sessioninfo/></report>')).toBe('jacoco');
+        expect(detectCoverageFormat('<coverage version="7.4"><!-- Generated by coverage.py --></coverage>')).toBe('coverage.py');
+        expect(detectCoverageFormat('<coverage line-rate="1"></coverage>')).toBe('cobertura');
+    });
+
+    it('returns null for other content', () => {
+        expect(detectCoverageFormat('total coverage: 80%')).toBeNull();
+    });
+});
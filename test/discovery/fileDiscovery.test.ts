@@ -0,0 +1,82 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join, relative } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { discoverFiles } from '../../src/discovery/fileDiscovery.js';
+
+describe('discoverFiles', () => {
+    let repoPath: string;
+
+    async function write(files: Record<string, string>): Promise<void> {
+        for (const [path, content] of Object.entries(files)) {
+            await mkdir(dirname(join(repoPath, path)), { recursive: true });
+            await writeFile(join(repoPath, path), content);
+        }
+    }
+
+    async function discover(patterns: string[] = ['**/*.ts'], exclude?: string[]): Promise<string[]> {
+        return (await discoverFiles(repoPath, patterns, { exclude })).map(file => relative(repoPath, file).split('\\').join('/'));
+    }
+
+    beforeEach(async () => {
+        repoPath = await mkdtemp(join(tmpdir(), 'techdebt-discovery-'));
+    });
+
+    afterEach(async () => {
+        await rm(repoPath, { recursive: true, force: true });
+    });
+
+    it('returns sorted matches without built-in ignores and configured excludes', async () => {
+        await write({
+            'src/b.ts': '',
+            'src/a.ts': '',
+            'node_modules/lib/index.ts': '',
+            'dist/out.ts': '',
+            'src/fixtures/data.ts': ''
+        });
+
+        expect(await discover(['**/*.ts'], ['**/fixtures/**'])).toEqual(['src/a.ts', 'src/b.ts']);
+    });
+
+    it('applies nested .gitignore files relative to their directory', async () => {
+        await write({
+            '.gitignore': 'generated/\n',
+            'packages/app/.gitignore': 'tmp.ts\n/local/\n',
+            'generated/api.ts': '',
+            'packages/app/tmp.ts': '',
+            'packages/app/src/tmp.ts': '',
+            'packages/app/local/x.ts': '',
+            'packages/app/src/local/y.ts': '',
+            'packages/app/index.ts': '',
+            'tmp.ts': ''
+        });
+
+        expect(await discover()).toEqual(['packages/app/index.ts', 'packages/app/src/local/y.ts', 'tmp.ts']);
+    });
+
+    it('lets deeper negations re-include files but not files inside ignored directories', async () => {
+        await write({
+            '.gitignore': '*.gen.ts\ncache/\n',
+            'src/.gitignore': '!keep.gen.ts\n!cache/x.ts\n',
+            'src/keep.gen.ts': '',
+            'src/drop.gen.ts': '',
+            'src/cache/x.ts': '',
+            'lib/keep.gen.ts': ''
+        });
+
+        expect(await discover()).toEqual(['src/keep.gen.ts']);
+    });
+
+    it('honors .techdebtignore and .git/info/exclude', async () => {
+        await write({
+            '.techdebtignore': 'legacy/**\n',
+            '.git/info/exclude': 'scratch.ts\n',
+            'legacy/old.ts': '',
+            'scratch.ts': '',
+            'src/scratch.ts': '',
+            'src/app.ts': ''
+        });
+
+        expect(await discover()).toEqual(['src/app.ts']);
+    });
+});
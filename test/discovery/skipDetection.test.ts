@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { classifyFile, detectGeneratedFile } from '../../src/discovery/skipDetection.js';
+
+describe('detectGeneratedFile', () => {
+    it('recognizes generated and minified file names', () => {
+        expect(detectGeneratedFile('dist/app.min.js', 'x')).toEqual({ reason: 'minified', detail: 'minified bundle file name' });
+        expect(detectGeneratedFile('api/service.pb.go', 'x')?.reason).toBe('generated');
+        expect(detectGeneratedFile('web\\package-lock.json', '{}')?.detail).toBe('lockfile');
+    });
+
+    it('honors generator markers only in header comments', () => {
+        expect(detectGeneratedFile('a.ts', '// Code generated by protoc. DO NOT EDIT.\nexport {};')?.detail).toBe('DO NOT EDIT header');
+        expect(detectGeneratedFile('a.ts', 'const help = "DO NOT EDIT";\n')).toBeNull();
+        expect(detectGeneratedFile('a.ts', [...Array(12).fill('x();'), '// @generated'].join('\n'))).toBeNull();
+    });
+
+    it('treats very long average lines as minified', () => {
+        expect(detectGeneratedFile('bundle.js', 'a'.repeat(5000))?.reason).toBe('minified');
+    });
+});
+
+describe('classifyFile', () => {
+    it('skips binary content and decodes text', () => {
+        expect(classifyFile('logo.ts', new Uint8Array([0x89, 0x50, 0x00, 0x47]))).toEqual({
+            skip: { reason: 'binary', detail: 'contains NUL bytes' }
+        });
+        expect(classifyFile('a.ts', Buffer.from('const x = 1;\n'))).toEqual({ content: 'const x = 1;\n' });
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { computeLineFingerprint, findEnclosingFunction, findFunctionStarts, fingerprintFindings } from '../src/fingerprint.js';
+
+const source = [
+    'import x from "x";',
+    '',
+    'function first() {',
+    '    if (ready) {',
+    '        return 42;',
+    '    }',
+    '}',
+    '',
+    'const second = async (a) => {',
+    '    return 42;',
+    '};'
+];
+
+describe('findFunctionStarts', () => {
+    it('lists declarations in line order and ignores control flow keywords', () => {
+        expect(findFunctionStarts(source)).toEqual([
+            { index: 2, name: 'first' },
+            { index: 8, name: 'second' }
+        ]);
+    });
+});
+
+describe('findEnclosingFunction', () => {
+    const starts = findFunctionStarts(source);
+
+    it('returns the nearest declaration at or above the line', () => {
+        expect(findEnclosingFunction(starts, 2)).toBe('first');
+        expect(findEnclosingFunction(starts, 4)).toBe('first');
+        expect(findEnclosingFunction(starts, 9)).toBe('second');
+    });
+
+    it('returns an empty name above the first declaration', () => {
+        expect(findEnclosingFunction(starts, 0)).toBe('');
+        expect(findEnclosingFunction([], 5)).toBe('');
+    });
+});
+
+describe('computeLineFingerprint', () => {
+    it('survives lines inserted elsewhere in the file', () => {
+        const shifted = ['// header', '', ...source];
+        expect(computeLineFingerprint(shifted, 7)).toBe(computeLineFingerprint(source, 5));
+    });
+
+    it('ignores whitespace-only edits', () => {
+        const reindented = source.map(line => line.replace(/^ {4}/, '\t'));
+        expect(computeLineFingerprint(reindented, 5)).toBe(computeLineFingerprint(source, 5));
+    });
+
+    it('distinguishes identical lines in different functions', () => {
+        expect(computeLineFingerprint(source, 5)).not.toBe(computeLineFingerprint(source, 10));
+    });
+
+    it('returns an empty fingerprint for lines outside the file', () => {
+        expect(computeLineFingerprint(source, 0)).toBe('');
+        expect(computeLineFingerprint(source, 99)).toBe('');
+    });
+});
+
+describe('fingerprintFindings', () => {
+    it('adds occurrence suffixes to identical findings and leaves file-level findings alone', () => {
+        const lines = ['a();', 'a();', 'a();'];
+        const findings = fingerprintFindings([
+            { type: 'magic_number', line: 2 },
+            { type: 'magic_number', line: 2 },
+            { type: 'large_file' }
+        ], lines);
+
+        expect(findings[0].fingerprint).toMatch(/^magic_number:[0-9a-f]{16}$/);
+        expect(findings[1].fingerprint).toBe(`${findings[0].fingerprint}#1`);
+        expect(findings[2].fingerprint).toBeUndefined();
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateQualityGate, isAtLeastSeverity } from '../../src/gates/qualityGate.js';
+import { ScanResult } from '../../src/scanner.js';
+
+function scanResult(overrides: Partial<ScanResult> = {}): ScanResult {
+    return {
+        summary: {
+            technicalDebt: { totalMinutes: 120, debtRatio: 7.456, sqaleRating: 'B', maintainabilityIndex: 68 },
+            quality: { codeSmells: 3, securityIssues: 1, testCoverage: 55 }
+        },
+        issues: [
+            { type: 'hardcoded_secret', severity: 'blocker', baselineStatus: 'existing' },
+            { type: 'magic_number', severity: 'minor', baselineStatus: 'new' },
+            { type: 'deep_nesting', severity: 'major', baselineStatus: 'new' }
+        ],
+        ...overrides
+    } as unknown as ScanResult;
+}
+
+describe('isAtLeastSeverity', () => {
+    it('orders severities from info to blocker', () => {
+        expect(isAtLeastSeverity('blocker', 'critical')).toBe(true);
+        expect(isAtLeastSeverity('major', 'major')).toBe(true);
+        expect(isAtLeastSeverity('minor', 'major')).toBe(false);
+    });
+});
+
+describe('evaluateQualityGate', () => {
+    it('passes when every condition holds', () => {
+        const gate = evaluateQualityGate([
+            { metric: 'debt_ratio', max: 10 },
+            { metric: 'sqale_rating', worst: 'B' },
+            { metric: 'maintainability_index', min: 65 }
+        ], scanResult());
+
+        expect(gate.status).toBe('passed');
+        expect(gate.conditions.map(c => [c.name, c.actual])).toEqual([
+            ['Debt ratio <= 10%', 7.46],
+            ['SQALE rating B or better', 'B'],
+            ['Maintainability index >= 65', 68]
+        ]);
+    });
+
+    it('fails when any condition fails', () => {
+        const gate = evaluateQualityGate([
+            { metric: 'test_coverage', min: 80, name: 'Coverage' },
+            { metric: 'sqale_rating', worst: 'A' }
+        ], scanResult());
+
+        expect(gate.status).toBe('failed');
+        expect(gate.conditions.map(c => [c.name, c.status])).toEqual([['Coverage', 'failed'], ['SQALE rating A or better', 'failed']]);
+    });
+
+    it('filters issues by severity, type and baseline status', () => {
+        const gate = evaluateQualityGate([
+            { metric: 'issues', max: 0, severity: 'critical' },
+            { metric: 'issues', max: 1, newOnly: true },
+            { metric: 'issues', max: 5, type: 'magic_number' }
+        ], scanResult({ baseline: {} as ScanResult['baseline'] }));
+
+        expect(gate.conditions.map(c => [c.name, c.actual, c.status])).toEqual([
+            ['Critical+ issues <= 0', 1, 'failed'],
+            ['New issues <= 1', 2, 'failed'],
+            ['Magic_number issues <= 5', 1, 'passed']
+        ]);
+    });
+
+    it('counts every issue as new without a baseline', () => {
+        const gate = evaluateQualityGate([{ metric: 'issues', max: 3, newOnly: true }], scanResult());
+        expect(gate.conditions[0].actual).toBe(3);
+    });
+
+    it('skips the debt delta outside PR mode', () => {
+        const condition = { metric: 'debt_delta_minutes' as const, max: 30 };
+
+        expect(evaluateQualityGate([condition], scanResult())).toEqual({
+            status: 'passed',
+            conditions: [{ name: 'PR debt delta <= 30 minutes', metric: 'debt_delta_minutes', status: 'skipped', actual: null, threshold: 30 }]
+        });
+        const pr = scanResult({ pullRequest: { debtDeltaMinutes: 45 } as ScanResult['pullRequest'] });
+        expect(evaluateQualityGate([condition], pr).conditions[0]).toMatchObject({ status: 'failed', actual: 45 });
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { parseBlamePorcelain, summarizeIssueAge } from '../../src/git/blame.js';
+
+const ROOT = '758b258a8ed4fa61ccb6d3035f292098c19dac1b';
+const SECOND = '1529e38bdeb6c1c888b255b725db103f7771137e';
+const UNCOMMITTED = '0000000000000000000000000000000000000000';
+
+// `git blame --porcelain -- a.ts`: a root (boundary) commit, a later commit and an uncommitted line
+const PORCELAIN = [
+    `${ROOT} 1 1 1`,
+    'author Ada',
+    'author-mail <ada@example.com>',
+    'author-time 1700000000',
+    'author-tz +0000',
+    'committer Ada',
+    'committer-mail <ada@example.com>',
+    'committer-time 1700000000',
+    'committer-tz +0000',
+    'summary root',
+    'boundary',
+    'filename a.ts',
+    '\tone',
+    `${SECOND} 2 2 1`,
+    'author Bob',
+    'author-mail <bob@example.com>',
+    'author-time 1710000000',
+    'author-tz +0000',
+    'committer Bob',
+    'committer-mail <bob@example.com>',
+    'committer-time 1710000000',
+    'committer-tz +0000',
+    'summary second',
+    `previous ${ROOT} a.ts`,
+    'filename a.ts',
+    '\tTWO',
+    `${ROOT} 3 3 1`,
+    '\tthree',
+    `${SECOND} 4 4 1`,
+    '\tfour',
+    `${UNCOMMITTED} 5 5 1`,
+    'author Not Committed Yet',
+    'author-mail <not.committed.yet>',
+    'author-time 1792438799',
+    'author-tz +0000',
+    'committer Not Committed Yet',
+    'committer-mail <not.committed.yet>',
+    'committer-time 1792438799',
+    'committer-tz +0000',
+    'summary Version of a.ts from a.ts',
+    `previous ${SECOND} a.ts`,
+    'filename a.ts',
+    '\tfive',
+    ''
+].join('\n');
+
+describe('parseBlamePorcelain', () => {
+    const blame = parseBlamePorcelain(PORCELAIN);
+
+    it('attributes every final line', () => {
+        expect([...blame.keys()]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('reads author details of boundary commits', () => {
+        expect(blame.get(1)).toEqual({
+            commit: ROOT,
+            author: 'Ada',
+            authorEmail: 'ada@example.com',
+            date: '2023-11-14T22:13:20.000Z'
+        });
+    });
+
+    it('reuses the details of a commit whose header was already printed', () => {
+        expect(blame.get(3)).toBe(blame.get(1));
+        expect(blame.get(4)).toMatchObject({ commit: SECOND, author: 'Bob', date: '2024-03-09T16:00:00.000Z' });
+    });
+
+    it('reports uncommitted lines without a commit', () => {
+        expect(blame.get(5)).toMatchObject({ commit: null, author: 'Not Committed Yet' });
+    });
+
+    it('uses the final line number of grouped lines and ignores metadata-like content', () => {
+        const grouped = parseBlamePorcelain([
+            `${SECOND} 7 10 2`,
+            'author Bob',
+            'author-time 1710000000',
+            '\tauthor Mallory',
+            `${SECOND} 8 11`,
+            `\t${ROOT} 1 1 1`,
+            ''
+        ].join('\n'));
+
+        expect([...grouped.keys()]).toEqual([10, 11]);
+        expect(grouped.get(11)).toMatchObject({ commit: SECOND, author: 'Bob' });
+    });
+
+    it('returns an empty map for empty output', () => {
+        expect(parseBlamePorcelain('')).toEqual(new Map());
+    });
+});
+
+describe('summarizeIssueAge', () => {
+    it('buckets blamed issues by age and counts the rest as unknown', () => {
+        const now = new Date('2024-04-01T00:00:00Z');
+        const blame = (date: string) => ({ commit: SECOND, author: 'Bob', authorEmail: 'bob@example.com', date });
+        const age = summarizeIssueAge([
+            { file: 'a.ts', line: 1, effort: 5, blame: blame('2024-03-20T00:00:00Z') },
+            { file: 'a.ts', line: 2, effort: 10, blame: blame('2023-11-14T00:00:00Z') },
+            { file: 'a.ts', line: 3, effort: 20, blame: blame('2020-01-01T00:00:00Z') },
+            { file: 'b.ts', effort: 30 }
+        ], now);
+
+        expect(age.buckets.map(b => [b.label, b.issues, b.debtMinutes])).toEqual([
+            ['< 30 days', 1, 5],
+            ['30-90 days', 0, 0],
+            ['90 days - 1 year', 1, 10],
+            ['1-3 years', 0, 0],
+            ['3+ years', 1, 20]
+        ]);
+        expect(age).toMatchObject({ unknown: 1, medianDays: 139, oldestDays: 1552 });
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parseNumstatLog, resolveRenamedPath } from '../../src/git/churn.js';
+
+describe('resolveRenamedPath', () => {
+    it('returns the destination of a plain rename', () => {
+        expect(resolveRenamedPath('old.ts => new.ts')).toBe('new.ts');
+    });
+
+    it('expands braced renames', () => {
+        expect(resolveRenamedPath('src/{a => b}/file.ts')).toBe('src/b/file.ts');
+        expect(resolveRenamedPath('src/{ => lib}/file.ts')).toBe('src/lib/file.ts');
+        expect(resolveRenamedPath('src/{lib => }/file.ts')).toBe('src/file.ts');
+    });
+
+    it('leaves other paths unchanged', () => {
+        expect(resolveRenamedPath('src/file.ts')).toBe('src/file.ts');
+    });
+});
+
+describe('parseNumstatLog', () => {
+    it('sums lines and counts commits per file', () => {
+        const files = parseNumstatLog([
+            '\0c2',
+            '',
+            '3\t1\tsrc/a.ts',
+            '-\t-\tlogo.png',
+            '\0c1',
+            '',
+            '10\t0\tsrc/a.ts',
+            '5\t2\tsrc/b.ts'
+        ].join('\n'));
+
+        expect(files.get('src/a.ts')).toMatchObject({ commits: 2, linesAdded: 13, linesDeleted: 1 });
+        expect(files.get('src/b.ts')).toMatchObject({ commits: 1, linesAdded: 5, linesDeleted: 2 });
+        expect(files.get('logo.png')).toMatchObject({ commits: 1, linesAdded: 0, linesDeleted: 0 });
+    });
+
+    it('credits history from before a rename to the newest path', () => {
+        const files = parseNumstatLog([
+            '\0c3',
+            '1\t1\tsrc/{util => lib}/format.ts',
+            '\0c2',
+            '4\t0\tsrc/util/format.ts',
+            '\0c1',
+            '2\t0\tsrc/util/format.ts'
+        ].join('\n'));
+
+        expect([...files.keys()]).toEqual(['src/lib/format.ts']);
+        expect(files.get('src/lib/format.ts')).toMatchObject({ commits: 3, linesAdded: 7, linesDeleted: 1 });
+    });
+
+    it('follows a chain of renames', () => {
+        const files = parseNumstatLog([
+            '\0c2',
+            '0\t0\tb.ts => c.ts',
+            '\0c1',
+            '0\t0\ta.ts => b.ts',
+            '\0c0',
+            '8\t0\ta.ts'
+        ].join('\n'));
+
+        expect([...files.keys()]).toEqual(['c.ts']);
+        expect(files.get('c.ts')).toMatchObject({ commits: 3, linesAdded: 8 });
+    });
+});
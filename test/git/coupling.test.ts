@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { computeCoupling, CouplingOptions, parseCommitFiles, topLevelModule } from '../../src/git/coupling.js';
+
+const options: CouplingOptions = { windowDays: 90, minSharedCommits: 2, minConfidence: 0.5, maxFilesPerCommit: 3 };
+
+describe('parseCommitFiles', () => {
+    it('groups file names by commit', () => {
+        const log = ['\0c2', '', '1\t0\ta.ts', '2\t2\tb.ts', '\0c1', '', '-\t-\tc.png', '\0c0', ''].join('\n');
+
+        expect(parseCommitFiles(log)).toEqual([
+            ['a.ts', 'b.ts'],
+            ['c.png'],
+            []
+        ]);
+    });
+
+    it('lists files changed before a rename under their newest path', () => {
+        const log = [
+            '\0c3',
+            '1\t1\tsrc/{util => lib}/format.ts',
+            '\0c2',
+            '4\t0\tsrc/util/format.ts',
+            '2\t0\tsrc/api.ts',
+            '\0c1',
+            '0\t0\tsrc/api.ts => src/client.ts',
+            '\0c0',
+            '2\t0\tsrc/util/format.ts',
+            '3\t0\tsrc/api.ts'
+        ].join('\n');
+
+        expect(parseCommitFiles(log)).toEqual([
+            ['src/lib/format.ts'],
+            ['src/lib/format.ts', 'src/api.ts'],
+            ['src/client.ts'],
+            ['src/lib/format.ts', 'src/client.ts']
+        ]);
+    });
+});
+
+describe('topLevelModule', () => {
+    it('returns the top-level directory or . for root files', () => {
+        expect(topLevelModule('src/git/diff.ts')).toBe('src');
+        expect(topLevelModule('package.json')).toBe('.');
+    });
+});
+
+describe('computeCoupling', () => {
+    it('reports pairs meeting the support and confidence thresholds', () => {
+        const commits = [
+            ['src/a.ts', 'src/b.ts'],
+            ['src/a.ts', 'src/b.ts'],
+            ['src/a.ts'],
+            ['src/a.ts', 'src/c.ts']
+        ];
+
+        const result = computeCoupling(commits, new Set(['src/a.ts', 'src/b.ts', 'src/c.ts']), options);
+
+        expect(result.commitsAnalyzed).toBe(4);
+        expect(result.pairs).toEqual([{
+            fileA: 'src/a.ts',
+            fileB: 'src/b.ts',
+            moduleA: 'src',
+            moduleB: 'src',
+            crossModule: false,
+            sharedCommits: 2,
+            commitsA: 4,
+            commitsB: 2,
+            confidence: 1
+        }]);
+    });
+
+    it('drops pairs below the confidence threshold', () => {
+        const commits = [['a.ts', 'b.ts'], ['a.ts', 'b.ts'], ['a.ts'], ['b.ts'], ['b.ts'], ['a.ts']];
+
+        expect(computeCoupling(commits, new Set(['a.ts', 'b.ts']), { ...options, minConfidence: 0.6 }).pairs).toEqual([]);
+    });
+
+    it('ignores files outside the analyzed set and skips mass edits', () => {
+        const commits = [
+            ['a.ts', 'b.ts', 'README.md'],
+            ['a.ts', 'b.ts'],
+            ['a.ts', 'b.ts', 'c.ts', 'd.ts']
+        ];
+
+        const result = computeCoupling(commits, new Set(['a.ts', 'b.ts', 'c.ts', 'd.ts']), options);
+
+        expect(result.commitsAnalyzed).toBe(2);
+        expect(result.commitsSkipped).toBe(1);
+        expect(result.pairs.map(p => [p.fileA, p.fileB, p.sharedCommits])).toEqual([['a.ts', 'b.ts', 2]]);
+    });
+
+    it('lists cross-module pairs first', () => {
+        const commits = [
+            ['api/handler.ts', 'web/client.ts', 'api/routes.ts'],
+            ['api/handler.ts', 'web/client.ts', 'api/routes.ts']
+        ];
+
+        const result = computeCoupling(commits, new Set(commits[0]), options);
+
+        expect(result.crossModulePairs).toBe(2);
+        expect(result.pairs.map(p => [p.fileA, p.fileB, p.crossModule])).toEqual([
+            ['api/handler.ts', 'web/client.ts', true],
+            ['api/routes.ts', 'web/client.ts', true],
+            ['api/handler.ts', 'api/routes.ts', false]
+        ]);
+    });
+});
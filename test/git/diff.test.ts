@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { isLineInRanges, parseRenames, parseUnifiedDiff } from '../../src/git/diff.js';
+
+describe('parseUnifiedDiff', () => {
+    it('collects added and modified line ranges per file', () => {
+        const diff = [
+            'diff --git a/src/a.ts b/src/a.ts',
+            '--- a/src/a.ts',
+            '+++ b/src/a.ts',
+            '@@ -3,0 +4,2 @@',
+            '+one',
+            '+two',
+            '@@ -10 +12 @@',
+            '-old',
+            '+new',
+            'diff --git a/src/b.ts b/src/b.ts',
+            '--- a/src/b.ts',
+            '+++ b/src/b.ts',
+            '@@ -1,3 +1,3 @@'
+        ].join('\n');
+
+        expect(parseUnifiedDiff(diff)).toEqual(new Map([
+            ['src/a.ts', [{ start: 4, end: 5 }, { start: 12, end: 12 }]],
+            ['src/b.ts', [{ start: 1, end: 3 }]]
+        ]));
+    });
+
+    it('ignores pure deletions and deleted files', () => {
+        const diff = [
+            '--- a/src/a.ts',
+            '+++ b/src/a.ts',
+            '@@ -5,2 +4,0 @@',
+            '--- a/src/gone.ts',
+            '+++ /dev/null',
+            '@@ -1,10 +0,0 @@'
+        ].join('\n');
+
+        expect(parseUnifiedDiff(diff)).toEqual(new Map([['src/a.ts', []]]));
+    });
+});
+
+describe('parseRenames', () => {
+    it('maps renamed and copied files to their old path', () => {
+        const nameStatus = ['M', 'src/a.ts', 'R087', 'lib/old.ts', 'lib/new.ts', 'A', 'src/c.ts', 'C100', 'x.ts', 'y.ts', ''].join('\0');
+
+        expect(parseRenames(nameStatus)).toEqual(new Map([
+            ['lib/new.ts', 'lib/old.ts'],
+            ['y.ts', 'x.ts']
+        ]));
+    });
+
+    it('returns an empty map for empty output', () => {
+        expect(parseRenames('')).toEqual(new Map());
+    });
+});
+
+describe('isLineInRanges', () => {
+    it('treats range ends as inclusive', () => {
+        const ranges = [{ start: 4, end: 5 }];
+        expect(isLineInRanges(4, ranges)).toBe(true);
+        expect(isLineInRanges(5, ranges)).toBe(true);
+        expect(isLineInRanges(6, ranges)).toBe(false);
+    });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProgressReporter, ToolExtra } from '../../src/mcp/progress.js';
+
+function fakeExtra(progressToken: string | undefined, signal = new AbortController().signal) {
+    const sendNotification = vi.fn(async () => {});
+    const extra = { _meta: progressToken === undefined ? undefined : { progressToken }, signal, sendNotification } as unknown as ToolExtra;
+    return { extra, sendNotification };
+}
+
+function sentProgress(sendNotification: ReturnType<typeof vi.fn>): number[] {
+    return sendNotification.mock.calls.map(([notification]) => notification.params.progress);
+}
+
+describe('createProgressReporter', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('sends progress notifications with the client token', async () => {
+        const { extra, sendNotification } = fakeExtra('tok');
+
+        await createProgressReporter(extra).report(1, 10, 'Analyzing');
+
+        expect(sendNotification).toHaveBeenCalledWith({
+            method: 'notifications/progress',
+            params: { progressToken: 'tok', progress: 1, total: 10, message: 'Analyzing' }
+        });
+    });
+
+    it('sends nothing when the client did not ask for progress', async () => {
+        const { extra, sendNotification } = fakeExtra(undefined);
+
+        await createProgressReporter(extra).report(1, 10, 'Analyzing', true);
+
+        expect(sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('throttles updates within the interval unless forced or complete', async () => {
+        const { extra, sendNotification } = fakeExtra('tok');
+        const progress = createProgressReporter(extra, 250);
+
+        await progress.report(1, 10, 'a');
+        await progress.report(2, 10, 'b');
+        await progress.report(3, 10, 'c', true);
+        await progress.report(10, 10, 'done');
+        vi.advanceTimersByTime(300);
+        await progress.report(11, 20, 'next phase');
+
+        expect(sentProgress(sendNotification)).toEqual([1, 3, 10, 11]);
+    });
+
+    it('never sends a progress value that does not increase', async () => {
+        const { extra, sendNotification } = fakeExtra('tok');
+        const progress = createProgressReporter(extra);
+
+        await progress.report(5, 10, 'a', true);
+        await progress.report(5, 10, 'b', true);
+        await progress.report(4, 10, 'c', true);
+
+        expect(sentProgress(sendNotification)).toEqual([5]);
+    });
+
+    it('keeps going when a notification fails to send', async () => {
+        const { extra, sendNotification } = fakeExtra('tok');
+        sendNotification.mockRejectedValueOnce(new Error('transport closed'));
+        const progress = createProgressReporter(extra);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        await expect(progress.report(1, 2, 'a', true)).resolves.toBeUndefined();
+        await progress.report(2, 2, 'b', true);
+
+        expect(sendNotification).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws from throwIfCancelled once the request is aborted and stops reporting', async () => {
+        const controller = new AbortController();
+        const { extra, sendNotification } = fakeExtra('tok', controller.signal);
+        const progress = createProgressReporter(extra);
+
+        expect(() => progress.throwIfCancelled()).not.toThrow();
+        controller.abort();
+
+        expect(progress.isCancelled()).toBe(true);
+        expect(() => progress.throwIfCancelled()).toThrow('Request cancelled by client');
+        await progress.report(1, 2, 'a', true);
+        expect(sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('is never cancelled without a request', () => {
+        const progress = createProgressReporter();
+
+        expect(progress.isCancelled()).toBe(false);
+        expect(() => progress.throwIfCancelled()).not.toThrow();
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { parseCodeowners, resolveOwners } from '../../src/ownership/codeowners.js';
+
+function owners(content: string, file: string): string[] {
+    return resolveOwners({ path: 'CODEOWNERS', rules: parseCodeowners(content) }, file);
+}
+
+describe('parseCodeowners', () => {
+    it('skips comments and blank lines and strips inline comments', () => {
+        const rules = parseCodeowners([
+            '# Owners',
+            '',
+            '*.ts @web # frontend',
+            'docs/ @writers @web'
+        ].join('\n'));
+
+        expect(rules.map(({ pattern, owners, section, line }) => ({ pattern, owners, section, line }))).toEqual([
+            { pattern: '*.ts', owners: ['@web'], section: null, line: 3 },
+            { pattern: 'docs/', owners: ['@writers', '@web'], section: null, line: 4 }
+        ]);
+    });
+
+    it('unescapes spaces in patterns', () => {
+        expect(parseCodeowners('My\\ Docs/ @writers')[0].pattern).toBe('My Docs/');
+    });
+
+    it('gives rules without owners the default owners of their GitLab section', () => {
+        const rules = parseCodeowners([
+            '[Backend] @backend',
+            'api/',
+            'db/ @dba',
+            '^[Docs][2]',
+            'docs/'
+        ].join('\n'));
+
+        expect(rules.map(({ owners, section }) => ({ owners, section }))).toEqual([
+            { owners: ['@backend'], section: 'Backend' },
+            { owners: ['@dba'], section: 'Backend' },
+            { owners: [], section: 'Docs' }
+        ]);
+    });
+});
+
+describe('resolveOwners', () => {
+    it('lets the last matching rule win', () => {
+        const content = ['* @everyone', 'src/ @core', 'src/legacy/ @legacy'].join('\n');
+
+        expect(owners(content, 'README.md')).toEqual(['@everyone']);
+        expect(owners(content, 'src/app.ts')).toEqual(['@core']);
+        expect(owners(content, 'src/legacy/old.ts')).toEqual(['@legacy']);
+    });
+
+    it('matches unanchored patterns at any depth and anchored patterns from the root', () => {
+        const content = ['*.md @writers', '/build/ @ci'].join('\n');
+
+        expect(owners(content, 'docs/guide/intro.md')).toEqual(['@writers']);
+        expect(owners(content, 'build/out.js')).toEqual(['@ci']);
+        expect(owners(content, 'src/build/out.js')).toEqual([]);
+    });
+
+    it('limits a trailing /* to the files directly in the directory', () => {
+        const content = 'docs/* @writers';
+
+        expect(owners(content, 'docs/intro.md')).toEqual(['@writers']);
+        expect(owners(content, 'docs/api/index.md')).toEqual([]);
+    });
+
+    it('removes ownership with a rule that has no owners', () => {
+        expect(owners(['src/ @core', 'src/generated/'].join('\n'), 'src/generated/api.ts')).toEqual([]);
+    });
+
+    it('combines the last match of every GitLab section', () => {
+        const content = ['[Code] @dev', 'src/', '[Security]', 'src/auth/ @security'].join('\n');
+
+        expect(owners(content, 'src/auth/login.ts')).toEqual(['@dev', '@security']);
+        expect(owners(content, 'src/app.ts')).toEqual(['@dev']);
+    });
+
+    it('accepts Windows path separators', () => {
+        expect(owners('src/ @core', 'src\\app.ts')).toEqual(['@core']);
+    });
+});
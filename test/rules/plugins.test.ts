@@ -0,0 +1,52 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadRulePlugins } from '../../src/rules/plugins.js';
+
+function ruleModule(id: string, severity: string): string {
+    return `export default { id: '${id}', languages: '*', defaultSeverity: '${severity}', category: 'maintainability', effort: 5, detect: () => [] };\n`;
+}
+
+describe('loadRulePlugins', () => {
+    let repoPath: string;
+
+    beforeEach(async () => {
+        repoPath = await mkdtemp(join(tmpdir(), 'techdebt-plugins-'));
+    });
+
+    afterEach(async () => {
+        await rm(repoPath, { recursive: true, force: true });
+    });
+
+    it('loads every module of a plugin directory with its content hash', async () => {
+        await writeFile(join(repoPath, 'b.mjs'), ruleModule('team_b', 'minor'));
+        await writeFile(join(repoPath, 'a.mjs'), ruleModule('team_a', 'major'));
+
+        const plugins = await loadRulePlugins(repoPath, ['.']);
+
+        expect(plugins.rules.map(r => r.id)).toEqual(['team_a', 'team_b']);
+        expect(plugins.modules.map(m => m.path)).toEqual([join(repoPath, 'a.mjs'), join(repoPath, 'b.mjs')]);
+        expect(plugins.modules[0].hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('re-imports a plugin after it is edited', async () => {
+        const path = join(repoPath, 'rule.mjs');
+        await writeFile(path, ruleModule('team_rule', 'minor'));
+        const before = await loadRulePlugins(repoPath, ['./rule.mjs']);
+
+        await writeFile(path, ruleModule('team_rule', 'critical'));
+        const after = await loadRulePlugins(repoPath, ['./rule.mjs']);
+
+        expect(before.rules[0].defaultSeverity).toBe('minor');
+        expect(after.rules[0].defaultSeverity).toBe('critical');
+        expect(after.modules[0].hash).not.toBe(before.modules[0].hash);
+    });
+
+    it('rejects missing plugins and rule IDs that clash with built-in rules', async () => {
+        await expect(loadRulePlugins(repoPath, ['./missing'])).rejects.toThrow(/Rule plugin '\.\/missing' not found/);
+
+        await writeFile(join(repoPath, 'clash.mjs'), ruleModule('magic_number', 'minor'));
+        await expect(loadRulePlugins(repoPath, ['./clash.mjs'])).rejects.toThrow(/magic_number/);
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { applySuppressions, parseSuppressions } from '../src/suppressions.js';
+
+describe('parseSuppressions', () => {
+    it('reads rules and reasons from line and block comments', () => {
+        const lines = [
+            '// techdebt-ignore-next-line hardcoded_secret -- test fixture',
+            '// techdebt-ignore-next-line Magic_Number,deep_nesting -- lookup table',
+            '/* techdebt-ignore-file -- generated from schema */',
+            'const note = "techdebt-ignore- is only text";'
+        ];
+
+        expect(parseSuppressions(lines, 'typescript')).toEqual([
+            { kind: 'next-line', line: 1, rules: ['hardcoded_secret'], reason: 'test fixture' },
+            { kind: 'next-line', line: 2, rules: ['magic_number', 'deep_nesting'], reason: 'lookup table' },
+            { kind: 'file', line: 3, rules: [], reason: 'generated from schema' }
+        ]);
+    });
+
+    it('uses the comment syntax of the language', () => {
+        expect(parseSuppressions(['# techdebt-ignore-next-line magic_number'], 'python')).toHaveLength(1);
+        expect(parseSuppressions(['# techdebt-ignore-next-line magic_number'], 'typescript')).toEqual([]);
+        expect(parseSuppressions(['// techdebt-ignore-next-line magic_number'], 'python')).toEqual([]);
+    });
+
+    it('accepts a directive in a comment after code', () => {
+        const [directive] = parseSuppressions(['const url = "http://x"; // techdebt-ignore-file todo_comment'], 'javascript');
+        expect(directive).toMatchObject({ kind: 'file', rules: ['todo_comment'] });
+    });
+
+    it('ignores directives inside string literals', () => {
+        expect(parseSuppressions([
+            'const s = "# techdebt-ignore-file";',
+            "const t = '// techdebt-ignore-file';",
+            'const u = `/* techdebt-ignore-next-line */`;',
+            'msg = "escaped \\" # techdebt-ignore-file"'
+        ], 'typescript')).toEqual([]);
+        expect(parseSuppressions(['s = "# techdebt-ignore-file"'], 'python')).toEqual([]);
+    });
+
+    it('ignores comment prefixes of other languages', () => {
+        expect(parseSuppressions([
+            'x-- techdebt-ignore-next-line',
+            '; techdebt-ignore-file',
+            '<!-- techdebt-ignore-file -->',
+            '% techdebt-ignore-file'
+        ], 'javascript')).toEqual([]);
+    });
+
+    it('does not treat an unclosed quote as a string', () => {
+        const [directive] = parseSuppressions(["fn get<'a>(s: &'a str) -> &'a str { s } // techdebt-ignore-next-line"], 'rust');
+        expect(directive).toMatchObject({ kind: 'next-line', rules: [] });
+    });
+
+    it('finds a directive after a block comment closed on the same line', () => {
+        const [directive] = parseSuppressions(['/* note */ x = 1; // techdebt-ignore-next-line magic_number'], 'c');
+        expect(directive.rules).toEqual(['magic_number']);
+    });
+
+    it('keeps double dashes inside the reason', () => {
+        const [directive] = parseSuppressions(['// techdebt-ignore-next-line sql_injection -- uses -- as a separator'], 'java');
+        expect(directive.rules).toEqual(['sql_injection']);
+        expect(directive.reason).toBe('uses -- as a separator');
+    });
+});
+
+describe('applySuppressions', () => {
+    const lines = [
+        '// techdebt-ignore-next-line magic_number -- constants table',
+        '// techdebt-ignore-next-line deep_nesting',
+        'const table = [1, 2, 3];',
+        'const other = 42;'
+    ];
+    const directives = parseSuppressions(lines, 'typescript');
+
+    it('applies stacked next-line directives to the first code line below them', () => {
+        const { kept, suppressed } = applySuppressions([
+            { type: 'magic_number', line: 3 },
+            { type: 'deep_nesting', line: 3 },
+            { type: 'magic_number', line: 4 },
+            { type: 'long_method', line: 3 }
+        ], directives, lines);
+
+        expect(suppressed.map(s => [s.finding.type, s.directive.line])).toEqual([['magic_number', 1], ['deep_nesting', 2]]);
+        expect(kept).toEqual([{ type: 'magic_number', line: 4 }, { type: 'long_method', line: 3 }]);
+    });
+
+    it('suppresses matching findings anywhere with a file directive', () => {
+        const fileLines = ['# techdebt-ignore-file todo_comment -- tracked elsewhere', 'x = 1'];
+        const { kept, suppressed } = applySuppressions(
+            [{ type: 'todo_comment', line: 2 }, { type: 'TODO_COMMENT' }, { type: 'magic_number', line: 2 }],
+            parseSuppressions(fileLines, 'python'),
+            fileLines
+        );
+
+        expect(suppressed).toHaveLength(2);
+        expect(kept).toEqual([{ type: 'magic_number', line: 2 }]);
+    });
+});
@@ -0,0 +1,2 @@
+// A worker whose module fails to load
+throw new Error('cannot load worker');
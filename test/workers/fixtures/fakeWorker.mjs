@@ -0,0 +1,20 @@
+// Stand-in for scanWorker.js; the task's file name selects its behavior
+import { parentPort, threadId } from 'worker_threads';
+
+parentPort.on('message', ({ id, task }) => {
+    parentPort.postMessage({ id, started: true });
+    const [behavior, arg] = task.file.split(':');
+    const reply = () => parentPort.postMessage({ id, result: { file: task.file, aiAnalysis: { threadId } } });
+
+    if (behavior === 'slow') {
+        setTimeout(reply, Number(arg));
+    } else if (behavior === 'loop') {
+        for (;;) { /* never yields */ }
+    } else if (behavior === 'crash') {
+        setImmediate(() => { throw new Error('worker crashed'); });
+    } else if (behavior === 'fail') {
+        parentPort.postMessage({ id, error: 'analysis failed' });
+    } else {
+        reply();
+    }
+});
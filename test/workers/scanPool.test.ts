@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createScanPool, mapWithConcurrency, runOrSkipOnTimeout, ScanPool, ScanPoolFailedError, TaskTimeoutError } from '../../src/workers/scanPool.js';
+import { ScanTask } from '../../src/workers/scanTask.js';
+
+const fakeWorker = new URL('./fixtures/fakeWorker.mjs', import.meta.url);
+const brokenWorker = new URL('./fixtures/brokenWorker.mjs', import.meta.url);
+
+function task(file: string): ScanTask {
+    return { file, content: '', runScan: true };
+}
+
+describe('createScanPool', () => {
+    let pool: ScanPool | undefined;
+
+    afterEach(async () => {
+        await pool?.close();
+        pool = undefined;
+    });
+
+    it('runs tasks concurrently and resolves each with its own result', async () => {
+        pool = createScanPool(2, fakeWorker);
+
+        const results = await Promise.all(['slow:300', 'slow:200', 'a', 'b'].map(file => pool!.run(task(file))));
+
+        expect(results.map(r => r.file)).toEqual(['slow:300', 'slow:200', 'a', 'b']);
+        const threads = results.map(r => (r.aiAnalysis as unknown as { threadId: number }).threadId);
+        expect(threads[0]).not.toBe(threads[1]);
+    });
+
+    it('rejects a task whose worker reports an error and keeps the worker', async () => {
+        pool = createScanPool(1, fakeWorker);
+
+        await expect(pool.run(task('fail'))).rejects.toThrow('analysis failed');
+        await expect(pool.run(task('a'))).resolves.toMatchObject({ file: 'a' });
+    });
+
+    it('fails in-flight and queued tasks when closed', async () => {
+        pool = createScanPool(1, fakeWorker);
+        const inFlight = expect(pool.run(task('slow:10000'))).rejects.toThrow('Scan pool is closed');
+        const queued = expect(pool.run(task('a'))).rejects.toThrow('Scan pool is closed');
+
+        await pool.close();
+
+        await inFlight;
+        await queued;
+        await expect(pool.run(task('b'))).rejects.toThrow('Scan pool is closed');
+    });
+
+    it('replaces a crashed worker and runs the next task', async () => {
+        pool = createScanPool(1, fakeWorker);
+
+        await expect(pool.run(task('crash'))).rejects.toThrow('worker crashed');
+        await expect(pool.run(task('a'))).resolves.toMatchObject({ file: 'a' });
+    });
+
+    it('replaces a worker that exceeds the time limit', async () => {
+        pool = createScanPool(1, fakeWorker);
+
+        await expect(pool.run(task('loop'), 200)).rejects.toBeInstanceOf(TaskTimeoutError);
+        await expect(pool.run(task('a'), 200)).resolves.toMatchObject({ file: 'a' });
+    });
+
+    it('fails instead of respawning workers that cannot start', async () => {
+        pool = createScanPool(1, brokenWorker);
+
+        await expect(pool.run(task('a'))).rejects.toThrow('cannot load worker');
+        await vi.waitFor(() => expect(pool!.run(task('b'))).rejects.toBeInstanceOf(ScanPoolFailedError), { timeout: 5000 });
+    });
+});
+
+describe('runOrSkipOnTimeout', () => {
+    let pool: ScanPool | undefined;
+
+    afterEach(async () => {
+        await pool?.close();
+        pool = undefined;
+    });
+
+    it('skips a file that exceeds the limit and continues with the rest', async () => {
+        pool = createScanPool(1, fakeWorker);
+
+        const results = await mapWithConcurrency(['a', 'loop', 'b'], 1, file => runOrSkipOnTimeout(pool!, task(file), 200));
+
+        expect(results[0]).toMatchObject({ file: 'a' });
+        expect(results[1]).toEqual({ skip: { reason: 'timeout', detail: expect.stringContaining('loop exceeded 200 ms') } });
+        expect(results[2]).toMatchObject({ file: 'b' });
+    });
+
+    it('drops the result of a task that finishes after the limit', async () => {
+        pool = createScanPool(1, fakeWorker);
+
+        await expect(runOrSkipOnTimeout(pool, task('slow:400'), 100)).resolves.toMatchObject({ skip: { reason: 'timeout' } });
+        // The late reply must not resolve the next task on the replacement worker
+        await expect(runOrSkipOnTimeout(pool, task('slow:500'), 2000)).resolves.toMatchObject({ file: 'slow:500' });
+    });
+
+    it('propagates other task failures', async () => {
+        pool = createScanPool(1, fakeWorker);
+
+        await expect(runOrSkipOnTimeout(pool, task('fail'), 200)).rejects.toThrow('analysis failed');
+    });
+});
+
+describe('mapWithConcurrency', () => {
+    it('keeps input order and bounds the operations in flight', async () => {
+        let active = 0;
+        let maxActive = 0;
+
+        const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+            maxActive = Math.max(maxActive, ++active);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            active--;
+            return index;
+        });
+
+        expect(results).toEqual([0, 1, 2, 3, 4]);
+        expect(maxActive).toBe(2);
+    });
+});
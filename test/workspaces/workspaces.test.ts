@@ -0,0 +1,157 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { detectWorkspaces, findWorkspace, summarizeWorkspaces, ROOT_WORKSPACE, Workspace } from '../../src/workspaces/workspaces.js';
+import { scanFile } from '../../src/scanner.js';
+
+describe('detectWorkspaces', () => {
+    let repoPath: string;
+
+    async function write(files: Record<string, string | object>): Promise<void> {
+        for (const [path, content] of Object.entries(files)) {
+            await mkdir(dirname(join(repoPath, path)), { recursive: true });
+            await writeFile(join(repoPath, path), typeof content === 'string' ? content : JSON.stringify(content));
+        }
+    }
+
+    beforeEach(async () => {
+        repoPath = await mkdtemp(join(tmpdir(), 'techdebt-workspaces-'));
+    });
+
+    afterEach(async () => {
+        await rm(repoPath, { recursive: true, force: true });
+    });
+
+    it('returns nothing for a single-package repository', async () => {
+        await write({ 'package.json': { name: 'app' } });
+        expect(await detectWorkspaces(repoPath)).toEqual([]);
+    });
+
+    it('reads pnpm-workspace.yaml with negated patterns', async () => {
+        await write({
+            'pnpm-workspace.yaml': "packages:\n  - 'packages/*'\n  - '!packages/scratch'\n",
+            'packages/api/package.json': { name: '@acme/api' },
+            'packages/scratch/package.json': { name: 'scratch' },
+            'packages/docs/README.md': ''
+        });
+
+        expect(await detectWorkspaces(repoPath)).toEqual([{ name: '@acme/api', path: 'packages/api', kind: 'pnpm' }]);
+    });
+
+    it('reads npm workspaces from package.json', async () => {
+        await write({
+            'package.json': { workspaces: ['apps/*'] },
+            'apps/web/package.json': { name: 'web' }
+        });
+
+        expect(await detectWorkspaces(repoPath)).toEqual([{ name: 'web', path: 'apps/web', kind: 'npm' }]);
+    });
+
+    it('reports yarn when a yarn.lock is present and accepts the packages object form', async () => {
+        await write({
+            'package.json': { workspaces: { packages: ['libs/*'] } },
+            'yarn.lock': '',
+            'libs/ui/package.json': {}
+        });
+
+        expect(await detectWorkspaces(repoPath)).toEqual([{ name: 'ui', path: 'libs/ui', kind: 'yarn' }]);
+    });
+
+    it('reads lerna.json, defaulting to packages/*', async () => {
+        await write({
+            'lerna.json': { version: '1.0.0' },
+            'packages/core/package.json': { name: 'core' }
+        });
+
+        expect(await detectWorkspaces(repoPath)).toEqual([{ name: 'core', path: 'packages/core', kind: 'lerna' }]);
+    });
+
+    it('reads Nx project.json files and workspace.json', async () => {
+        await write({
+            'nx.json': {},
+            'workspace.json': { projects: { legacy: 'apps/legacy' } },
+            'libs/shared/project.json': { name: 'shared' }
+        });
+
+        expect(await detectWorkspaces(repoPath)).toEqual([
+            { name: 'legacy', path: 'apps/legacy', kind: 'nx' },
+            { name: 'shared', path: 'libs/shared', kind: 'nx' }
+        ]);
+    });
+
+    it('reads go.work use directives', async () => {
+        await write({
+            'go.work': 'go 1.22\n\nuse (\n    ./svc/api // public API\n    ./svc/missing\n)\nuse ./tools\n',
+            'svc/api/go.mod': 'module example.com/svc/api\n',
+            'tools/go.mod': 'module example.com/tools\n'
+        });
+
+        expect(await detectWorkspaces(repoPath)).toEqual([
+            { name: 'example.com/svc/api', path: 'svc/api', kind: 'go' },
+            { name: 'example.com/tools', path: 'tools', kind: 'go' }
+        ]);
+    });
+
+    it('reads Cargo workspace members and excludes', async () => {
+        await write({
+            'Cargo.toml': '[workspace]\nmembers = ["crates/*"]\nexclude = ["crates/experimental"]\n',
+            'crates/parser/Cargo.toml': '[package]\nname = "acme-parser"\nversion = "0.1.0"\n',
+            'crates/experimental/Cargo.toml': '[package]\nname = "experimental"\n'
+        });
+
+        expect(await detectWorkspaces(repoPath)).toEqual([{ name: 'acme-parser', path: 'crates/parser', kind: 'cargo' }]);
+    });
+
+    it('reports a directory claimed by several tools once, preferring the package manager', async () => {
+        await write({
+            'package.json': { workspaces: ['packages/*'] },
+            'lerna.json': {},
+            'nx.json': {},
+            'packages/core/package.json': { name: 'core' },
+            'packages/core/project.json': { name: 'core-nx' }
+        });
+
+        expect(await detectWorkspaces(repoPath)).toEqual([{ name: 'core', path: 'packages/core', kind: 'npm' }]);
+    });
+});
+
+describe('findWorkspace', () => {
+    const workspaces: Workspace[] = [
+        { name: 'app', path: 'packages/app', kind: 'npm' },
+        { name: 'app-plugin', path: 'packages/app/plugins/x', kind: 'npm' },
+        { name: 'apps', path: 'packages/apps', kind: 'npm' }
+    ];
+
+    it('attributes a file to the innermost workspace containing it', () => {
+        expect(findWorkspace(workspaces, 'packages/app/src/index.ts').name).toBe('app');
+        expect(findWorkspace(workspaces, 'packages/app/plugins/x/index.ts').name).toBe('app-plugin');
+        expect(findWorkspace(workspaces, 'packages/apps/main.ts').name).toBe('apps');
+    });
+
+    it('falls back to the root workspace outside every package', () => {
+        expect(findWorkspace(workspaces, 'scripts/build.ts')).toBe(ROOT_WORKSPACE);
+        expect(findWorkspace(workspaces, 'packages/app')).toBe(ROOT_WORKSPACE);
+    });
+});
+
+describe('summarizeWorkspaces', () => {
+    it('rolls results up per workspace and omits workspaces without files', async () => {
+        const workspaces: Workspace[] = [
+            { name: 'app', path: 'packages/app', kind: 'npm' },
+            { name: 'plugin', path: 'packages/app/plugin', kind: 'npm' },
+            { name: 'empty', path: 'packages/empty', kind: 'npm' }
+        ];
+        const source = 'export const a = 1;\nexport const b = 2;\n';
+        const fileResults = await Promise.all(['packages/app/a.ts', 'packages/app/b.ts', 'packages/app/plugin/c.ts', 'scripts/d.ts']
+            .map(async file => ({ file, ...await scanFile(source, file) })));
+
+        const summaries = summarizeWorkspaces(fileResults, workspaces, new Map([['packages/app', 80]]));
+
+        expect(summaries.map(s => [s.name, s.files, s.testCoverage])).toEqual([
+            ['app', 2, 80],
+            ['plugin', 1, 0],
+            ['(root)', 1, 0]
+        ]);
+    });
+});